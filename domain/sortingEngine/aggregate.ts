@@ -0,0 +1,181 @@
+// Combining several rankings of the same tasks into one order
+
+import type { TaskId, CriterionId, Criterion, CriterionRanking, ParticipantSet, ParticipantId } from '../types';
+import { fitBradleyTerry, gamesFromCache, type Game } from './bradleyTerry';
+
+export type GroupMethod = 'borda' | 'kemeny' | 'bradley-terry';
+
+export interface AggregateResult {
+  taskOrder: TaskId[];
+  scores: Record<TaskId, number>;   // 0-1, higher ranks first
+}
+
+// Normalised Borda score: 1 for the top of `order`, 0 for the bottom.
+// Tasks missing from the order sit in the middle so they neither win nor lose.
+export function positionScores(order: TaskId[], taskIds: TaskId[]): Record<TaskId, number> {
+  const include = new Set(taskIds);
+  const position = new Map<TaskId, number>();
+  order.filter(id => include.has(id)).forEach((id, i) => position.set(id, i));
+
+  const ranked = position.size;
+  const scores: Record<TaskId, number> = {};
+  taskIds.forEach(id => {
+    const pos = position.get(id);
+    scores[id] = pos === undefined || ranked < 2 ? 0.5 : 1 - pos / (ranked - 1);
+  });
+  return scores;
+}
+
+// Order tasks by score, keeping `taskIds` order for equal scores
+function orderByScore(taskIds: TaskId[], scores: Record<TaskId, number>): TaskId[] {
+  return taskIds
+    .map((id, i) => ({ id, i }))
+    .sort((x, y) => scores[y.id] - scores[x.id] || x.i - y.i)
+    .map(({ id }) => id);
+}
+
+// Weighted sum of per-criterion positions; inverted criteria count from the bottom
+export function aggregateCriteria(
+  taskIds: TaskId[],
+  criteria: Criterion[],
+  rankings: Record<CriterionId, CriterionRanking>
+): AggregateResult {
+  const totalWeight = criteria.reduce((sum, c) => sum + Math.max(0, c.weight), 0);
+  const scores: Record<TaskId, number> = {};
+  taskIds.forEach(id => (scores[id] = 0));
+
+  if (totalWeight === 0) {
+    return { taskOrder: [...taskIds], scores };
+  }
+
+  criteria.forEach(criterion => {
+    const weight = Math.max(0, criterion.weight) / totalWeight;
+    const perCriterion = positionScores(rankings[criterion.id]?.taskOrder ?? [], taskIds);
+
+    taskIds.forEach(id => {
+      const score = criterion.inverted ? 1 - perCriterion[id] : perCriterion[id];
+      scores[id] += weight * score;
+    });
+  });
+
+  return { taskOrder: orderByScore(taskIds, scores), scores };
+}
+
+// 1-based position of each task in each criterion's ranking (null when unranked),
+// e.g. for plotting an impact/effort matrix
+export function criterionPositions(
+  taskIds: TaskId[],
+  criteria: Criterion[],
+  rankings: Record<CriterionId, CriterionRanking>
+): Record<TaskId, Record<CriterionId, number | null>> {
+  const positions: Record<TaskId, Record<CriterionId, number | null>> = {};
+  taskIds.forEach(id => (positions[id] = {}));
+
+  criteria.forEach(criterion => {
+    const order = rankings[criterion.id]?.taskOrder ?? [];
+    const index = new Map(order.map((id, i) => [id, i + 1]));
+    taskIds.forEach(id => {
+      positions[id][criterion.id] = index.get(id) ?? null;
+    });
+  });
+
+  return positions;
+}
+
+export interface GroupRanking {
+  method: GroupMethod;
+  participants: ParticipantId[];
+  taskOrder: TaskId[];
+  disagreement: Record<TaskId, number>;  // 0 = everyone agrees on its place, 1 = split top/bottom
+}
+
+// Average Borda score across participants
+function bordaScores(taskIds: TaskId[], participants: ParticipantSet[]): Record<TaskId, number> {
+  const scores: Record<TaskId, number> = {};
+  taskIds.forEach(id => (scores[id] = 0));
+
+  participants.forEach(p => {
+    const perPerson = positionScores(p.taskOrder, taskIds);
+    taskIds.forEach(id => (scores[id] += perPerson[id] / participants.length));
+  });
+
+  return scores;
+}
+
+// Kemeny approximation: start from Borda, then swap neighbours while a majority of
+// participants prefers the lower one (each swap strictly lowers total disagreement)
+function kemenyOrder(taskIds: TaskId[], participants: ParticipantSet[]): TaskId[] {
+  const positions = participants.map(p => new Map(p.taskOrder.map((id, i) => [id, i])));
+
+  // Participants who rank a above b (tasks a person never ranked count for no one)
+  const prefers = (a: TaskId, b: TaskId) =>
+    positions.filter(pos => {
+      const pa = pos.get(a);
+      const pb = pos.get(b);
+      return pa !== undefined && pb !== undefined && pa < pb;
+    }).length;
+
+  const order = orderByScore(taskIds, bordaScores(taskIds, participants));
+
+  let improved = true;
+  for (let pass = 0; improved && pass < order.length; pass++) {
+    improved = false;
+    for (let i = 0; i + 1 < order.length; i++) {
+      const [a, b] = [order[i], order[i + 1]];
+      if (prefers(b, a) > prefers(a, b)) {
+        order[i] = b;
+        order[i + 1] = a;
+        improved = true;
+      }
+    }
+  }
+
+  return order;
+}
+
+// Bradley–Terry fitted to everyone's answers pooled together
+function pooledBradleyTerryOrder(taskIds: TaskId[], participants: ParticipantSet[]): TaskId[] {
+  const games: Game[] = participants.flatMap(p => gamesFromCache(p.cache, taskIds));
+  return fitBradleyTerry(taskIds, games).ranking;
+}
+
+// How far apart participants place each task: standard deviation of its normalised
+// position, scaled so a half-top/half-bottom split scores 1
+function disagreementScores(taskIds: TaskId[], participants: ParticipantSet[]): Record<TaskId, number> {
+  const perPerson = participants.map(p => positionScores(p.taskOrder, taskIds));
+  const disagreement: Record<TaskId, number> = {};
+
+  taskIds.forEach(id => {
+    const values = perPerson.map(scores => scores[id]);
+    const mean = values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, values.length);
+    disagreement[id] = Math.min(1, Math.sqrt(variance) / 0.5);
+  });
+
+  return disagreement;
+}
+
+// Combine several people's rankings of the same tasks into one group order
+export function aggregateParticipants(
+  taskIds: TaskId[],
+  participants: ParticipantSet[],
+  method: GroupMethod = 'kemeny'
+): GroupRanking {
+  let taskOrder: TaskId[];
+  if (participants.length === 0) {
+    taskOrder = [...taskIds];
+  } else if (method === 'borda') {
+    taskOrder = orderByScore(taskIds, bordaScores(taskIds, participants));
+  } else if (method === 'kemeny') {
+    taskOrder = kemenyOrder(taskIds, participants);
+  } else {
+    taskOrder = pooledBradleyTerryOrder(taskIds, participants);
+  }
+
+  return {
+    method,
+    participants: participants.map(p => p.id),
+    taskOrder,
+    disagreement: disagreementScores(taskIds, participants),
+  };
+}
@@ -0,0 +1,129 @@
+// Bradley–Terry model: P(i beats j) = p_i / (p_i + p_j)
+// Fitted with Hunter's MM algorithm; a weak prior keeps unbeaten tasks finite
+
+import type { TaskId, CompareResult } from '../types';
+import type { TaskScore } from './types';
+import { parseCacheKey } from './cache';
+
+const PRIOR_GAMES = 1;       // virtual win + loss against an average opponent per task
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-6;
+const Z_95 = 1.959964;
+
+// One observed outcome; ties count as half a win for each side
+export interface Game {
+  a: TaskId;
+  b: TaskId;
+  result: CompareResult;     // from a's point of view
+  weight?: number;           // how many times this outcome was observed (default 1)
+}
+
+export interface BradleyTerryFit {
+  scores: Record<TaskId, TaskScore>;
+  ranking: TaskId[];         // highest score first, ties broken by input order
+}
+
+// Logistic win probability for log-scores
+export function winProbability(scoreA: number, scoreB: number): number {
+  return 1 / (1 + Math.exp(scoreB - scoreA));
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Turn cached answers between the given tasks into games
+export function gamesFromCache(record: Record<string, CompareResult>, taskIds: TaskId[]): Game[] {
+  const include = new Set(taskIds);
+  const games: Game[] = [];
+
+  Object.entries(record).forEach(([key, result]) => {
+    const [a, b] = parseCacheKey(key);
+    if (include.has(a) && include.has(b)) games.push({ a, b, result });
+  });
+
+  return games;
+}
+
+// Fit log-scores (mean zero) with a 95% interval from the Fisher information
+export function fitBradleyTerry(taskIds: TaskId[], games: Game[]): BradleyTerryFit {
+  const index = new Map<TaskId, number>();
+  taskIds.forEach((id, i) => index.set(id, i));
+
+  const n = taskIds.length;
+  const wins = new Array<number>(n).fill(PRIOR_GAMES);
+  const pairs: { i: number; j: number; count: number }[] = [];
+
+  games.forEach(({ a, b, result, weight = 1 }) => {
+    const i = index.get(a);
+    const j = index.get(b);
+    if (i === undefined || j === undefined || i === j) return;
+
+    wins[i] += weight * (result === 1 ? 1 : result === 0 ? 0.5 : 0);
+    wins[j] += weight * (result === -1 ? 1 : result === 0 ? 0.5 : 0);
+    pairs.push({ i, j, count: weight });
+  });
+
+  // Strengths p_i; the prior opponent has strength 1
+  let strength = new Array<number>(n).fill(1);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const denominators = strength.map(p => (2 * PRIOR_GAMES) / (p + 1));
+    pairs.forEach(({ i, j, count }) => {
+      const shared = count / (strength[i] + strength[j]);
+      denominators[i] += shared;
+      denominators[j] += shared;
+    });
+
+    const next = wins.map((w, i) => w / denominators[i]);
+    const change = next.reduce((max, p, i) => Math.max(max, Math.abs(Math.log(p / strength[i]))), 0);
+    strength = next;
+    if (change < TOLERANCE) break;
+  }
+
+  // Log-scores relative to the prior opponent, which sits at 0
+  const logScores = strength.map(p => Math.log(p));
+
+  // Fisher information of each log-score, including the prior games
+  const information = logScores.map(s => {
+    const p = winProbability(s, 0);
+    return 2 * PRIOR_GAMES * p * (1 - p);
+  });
+  pairs.forEach(({ i, j, count }) => {
+    const p = winProbability(logScores[i], logScores[j]);
+    information[i] += count * p * (1 - p);
+    information[j] += count * p * (1 - p);
+  });
+
+  // Report scores centred on the list's mean
+  const mean = logScores.reduce((sum, s) => sum + s, 0) / Math.max(1, n);
+
+  const scores: Record<TaskId, TaskScore> = {};
+  taskIds.forEach((id, i) => {
+    const score = logScores[i] - mean;
+    const stdError = 1 / Math.sqrt(information[i]);
+    scores[id] = {
+      score,
+      stdError,
+      lower: score - Z_95 * stdError,
+      upper: score + Z_95 * stdError,
+    };
+  });
+
+  const ranking = taskIds
+    .map((id, i) => ({ id, i }))
+    .sort((x, y) => scores[y.id].score - scores[x.id].score || x.i - y.i)
+    .map(({ id }) => id);
+
+  return { scores, ranking };
+}
+
+// Probability that `a` really ranks above `b` given the fitted uncertainty
+export function orderConfidence(a: TaskScore, b: TaskScore): number {
+  const spread = Math.sqrt(a.stdError ** 2 + b.stdError ** 2);
+  return normalCdf((a.score - b.score) / spread);
+}
@@ -0,0 +1,188 @@
+// Statistical comparison engine: refits Bradley–Terry scores from every cached answer
+// and asks whichever pair is expected to teach it the most, so one noisy answer
+// nudges scores instead of permanently fixing a position
+
+import type { TaskId, CompareResult, SortingState, BradleyTerryState } from '../types';
+import type { ComparisonPair, SortingProgress, SortEngine, TaskScore } from './types';
+import { createComparisonCache } from './cache';
+import { fitBradleyTerry, gamesFromCache, orderConfidence, winProbability, type BradleyTerryFit } from './bradleyTerry';
+
+const DEFAULT_CONFIDENCE = 0.65;
+// Target confidence must sit strictly between a coin flip and certainty
+const MIN_CONFIDENCE = 0.51;
+const MAX_CONFIDENCE = 0.99;
+const CANDIDATE_WINDOW = 4;  // only pair tasks within this many ranks of each other
+
+// Same budget the merge engine would need, used as the default hard stop
+function estimateComparisons(n: number): number {
+  if (n <= 1) return 0;
+  return Math.ceil(n * Math.log2(n));
+}
+
+function clampConfidence(confidence: number | undefined): number {
+  if (confidence === undefined || !Number.isFinite(confidence)) return DEFAULT_CONFIDENCE;
+  return Math.min(MAX_CONFIDENCE, Math.max(MIN_CONFIDENCE, confidence));
+}
+
+// Create a new statistical session
+export function createSession(
+  taskIds: TaskId[],
+  existingCache?: Record<string, CompareResult>,
+  options: { confidence?: number; maxComparisons?: number } = {}
+): SortingState {
+  const cache = createComparisonCache(existingCache);
+  const maxComparisons = options.maxComparisons ?? estimateComparisons(taskIds.length);
+
+  return {
+    algo: 'bradley-terry',
+    comparisonsAsked: 0,
+    comparisonsTotal: maxComparisons,
+    cache: cache.toRecord(),
+    internal: {
+      kind: 'bradley-terry',
+      taskIds: [...taskIds],
+      confidence: clampConfidence(options.confidence),
+      maxComparisons,
+    },
+  };
+}
+
+function fit(state: SortingState): BradleyTerryFit {
+  const internal = state.internal as BradleyTerryState;
+  return fitBradleyTerry(internal.taskIds, gamesFromCache(state.cache, internal.taskIds));
+}
+
+// Average probability that neighbouring tasks in the fitted ranking are in the right order
+export function rankingConfidence(result: BradleyTerryFit): number {
+  const { ranking, scores } = result;
+  if (ranking.length < 2) return 1;
+
+  const total = ranking
+    .slice(1)
+    .reduce((sum, id, i) => sum + orderConfidence(scores[ranking[i]], scores[id]), 0);
+  return total / (ranking.length - 1);
+}
+
+// Unasked pair with the highest expected information: close outcomes between uncertain tasks
+function pickPair(state: SortingState, result: BradleyTerryFit): ComparisonPair | null {
+  const cache = createComparisonCache(state.cache);
+  const { ranking, scores } = result;
+  let best: ComparisonPair | null = null;
+  let bestGain = -1;
+
+  for (let i = 0; i < ranking.length; i++) {
+    for (let j = i + 1; j <= i + CANDIDATE_WINDOW && j < ranking.length; j++) {
+      const a = ranking[i];
+      const b = ranking[j];
+      if (cache.hasDirect(a, b)) continue;
+
+      const p = winProbability(scores[a].score, scores[b].score);
+      const gain = p * (1 - p) * (scores[a].stdError ** 2 + scores[b].stdError ** 2);
+      if (gain > bestGain) {
+        best = { a, b };
+        bestGain = gain;
+      }
+    }
+  }
+
+  return best;
+}
+
+// Get the next pair to compare, or null once the ranking is confident enough
+export function requestNextPair(state: SortingState): ComparisonPair | null {
+  if (!state.internal) return null;
+
+  const internal = state.internal as BradleyTerryState;
+  if (state.comparisonsAsked >= internal.maxComparisons) return null;
+
+  const result = fit(state);
+  if (rankingConfidence(result) >= internal.confidence) return null;
+
+  return pickPair(state, result);
+}
+
+// Commit a comparison result; scores are refitted on the next request
+export function commitComparison(
+  state: SortingState,
+  a: TaskId,
+  b: TaskId,
+  result: CompareResult
+): SortingState {
+  const cache = createComparisonCache(state.cache);
+
+  // Cache the result
+  cache.set(a, b, result);
+
+  return {
+    ...state,
+    comparisonsAsked: state.comparisonsAsked + 1,
+    cache: cache.toRecord(),
+  };
+}
+
+// Check if the engine has nothing left worth asking
+export function isComplete(state: SortingState): boolean {
+  return requestNextPair(state) === null;
+}
+
+// Get tasks ordered by fitted score
+export function finalize(state: SortingState): TaskId[] {
+  if (!state.internal) return [];
+  return fit(state).ranking;
+}
+
+// Get each task's fitted score and 95% confidence interval
+export function getScores(state: SortingState): Record<TaskId, TaskScore> {
+  if (!state.internal) return {};
+  return fit(state).scores;
+}
+
+// Progress is whichever is further along: the comparison budget or the climb from
+// a coin flip (0.5) to the target confidence
+export function getProgress(state: SortingState): SortingProgress {
+  const current = state.comparisonsAsked;
+  const total = state.comparisonsTotal;
+  const budgetShare = total > 0 ? current / total : 1;
+
+  let confidenceShare = 1;
+  if (state.internal) {
+    const internal = state.internal as BradleyTerryState;
+    const confidence = rankingConfidence(fit(state));
+    confidenceShare = Math.max(0, (confidence - 0.5) / (internal.confidence - 0.5));
+  }
+
+  const percentage = isComplete(state) ? 100 : Math.round(Math.max(budgetShare, confidenceShare) * 100);
+
+  return {
+    current,
+    total,
+    percentage: Math.min(100, percentage),
+  };
+}
+
+// Validate that a statistical state is well-formed
+export function validateState(state: SortingState): boolean {
+  if (!state || typeof state !== 'object') return false;
+  if (state.algo !== 'bradley-terry' || !state.internal) return false;
+
+  const internal = state.internal as BradleyTerryState;
+  return (
+    internal.kind === 'bradley-terry' &&
+    Array.isArray(internal.taskIds) &&
+    typeof internal.confidence === 'number' &&
+    internal.confidence > 0.5 &&
+    internal.confidence < 1 &&
+    typeof internal.maxComparisons === 'number'
+  );
+}
+
+export const bradleyTerryEngine: SortEngine = {
+  algo: 'bradley-terry',
+  create: (taskIds, options) => createSession(taskIds, options?.cache, options),
+  next: requestNextPair,
+  commit: commitComparison,
+  isComplete,
+  finalize,
+  progress: getProgress,
+  validate: validateState,
+};
@@ -1,13 +1,21 @@
 // Comparison result caching to avoid re-asking the same question
+// Lookups also answer orderings implied by transitivity (A > B, B > C gives A > C)
 
 import type { TaskId, CompareResult } from '../types';
-import type { ComparisonCache } from './types';
+import type { ComparisonCache, TransitiveConflict } from './types';
+import { createInferenceIndex, type InferenceIndex } from './inference';
 
 // Create a normalized cache key (always smaller ID first for consistency)
-function createCacheKey(a: TaskId, b: TaskId): string {
+export function createCacheKey(a: TaskId, b: TaskId): string {
   return a < b ? `${a}|${b}` : `${b}|${a}`;
 }
 
+// Split a cache key back into its (smaller, larger) task IDs
+export function parseCacheKey(key: string): [TaskId, TaskId] {
+  const split = key.indexOf('|');
+  return [key.slice(0, split), key.slice(split + 1)];
+}
+
 // Flip the result if we swapped the order
 function normalizeResult(a: TaskId, b: TaskId, result: CompareResult): CompareResult {
   if (a < b) return result;
@@ -15,98 +23,190 @@ function normalizeResult(a: TaskId, b: TaskId, result: CompareResult): CompareRe
   return (result === 0 ? 0 : -result) as CompareResult;
 }
 
+// Inference indexes keyed by the record they were built from, so the many caches an
+// engine creates over the same record share one index instead of rebuilding it
+const indexes = new WeakMap<Record<string, CompareResult>, InferenceIndex>();
+
 export function createComparisonCache(initialData?: Record<string, CompareResult>): ComparisonCache {
-  const cache = new Map<string, CompareResult>();
+  // Read straight from the given record and only copy it on the first write, since
+  // engines create a cache on every call and most calls never write
+  let data: Record<string, CompareResult> = initialData ?? {};
+  let owned = !initialData;
+
+  const write = () => {
+    if (!owned) {
+      data = { ...data };
+      owned = true;
+    }
+  };
 
-  // Initialize from record if provided
-  if (initialData) {
-    Object.entries(initialData).forEach(([key, value]) => {
-      cache.set(key, value);
-    });
-  }
+  // Index over the direct answers, built on the first inferred lookup. While it is
+  // registered for a record other caches may be reading it too, so the first write
+  // copies it, just as it copies the record.
+  let index: InferenceIndex | null = initialData ? indexes.get(initialData) ?? null : null;
+  let indexOwned = false;
+
+  const getIndex = (): InferenceIndex => {
+    if (!index) {
+      index = createInferenceIndex();
+      Object.entries(data).forEach(([key, value]) => {
+        const [a, b] = parseCacheKey(key);
+        index!.add(a, b, value);
+      });
+      // An index over a record this cache does not own is shared with that record
+      if (owned) {
+        indexOwned = true;
+      } else {
+        indexes.set(data, index);
+        indexOwned = false;
+      }
+    }
+    return index;
+  };
 
-  return {
-    get(a: TaskId, b: TaskId): CompareResult | undefined {
-      const key = createCacheKey(a, b);
-      const cached = cache.get(key);
+  const lookup = (a: TaskId, b: TaskId): CompareResult | undefined => {
+    const cached = data[createCacheKey(a, b)];
+    if (cached !== undefined) return normalizeResult(a, b, cached);
+    if (a === b) return undefined;
 
-      if (cached === undefined) return undefined;
+    return getIndex().compare(a, b);
+  };
 
-      return normalizeResult(a, b, cached);
+  return {
+    get(a: TaskId, b: TaskId): CompareResult | undefined {
+      return lookup(a, b);
     },
 
     set(a: TaskId, b: TaskId, result: CompareResult): void {
       const key = createCacheKey(a, b);
       const normalized = normalizeResult(a, b, result);
-      cache.set(key, normalized);
+      const previous = data[key];
+
+      write();
+      data[key] = normalized;
+
+      if (index) {
+        // The index cannot forget an answer, so a changed one means rebuilding it
+        if (previous !== undefined && previous !== normalized) {
+          index = null;
+        } else {
+          if (!indexOwned) {
+            index = index.clone();
+            indexOwned = true;
+          }
+          index.add(a, b, result);
+        }
+      }
     },
 
     has(a: TaskId, b: TaskId): boolean {
-      const key = createCacheKey(a, b);
-      return cache.has(key);
+      return lookup(a, b) !== undefined;
+    },
+
+    hasDirect(a: TaskId, b: TaskId): boolean {
+      return data[createCacheKey(a, b)] !== undefined;
     },
 
     clear(): void {
-      cache.clear();
+      data = {};
+      owned = true;
+      index = null;
     },
 
+    // Only direct answers are persisted. The returned record is treated as immutable:
+    // later writes to this cache copy it first.
     toRecord(): Record<string, CompareResult> {
-      const record: Record<string, CompareResult> = {};
-      cache.forEach((value, key) => {
-        record[key] = value;
-      });
-      return record;
+      owned = false;
+
+      // Hand the index on to the record; from now on it is shared
+      if (index) {
+        indexes.set(data, index);
+        indexOwned = false;
+      }
+      return data;
     },
 
     fromRecord(record: Record<string, CompareResult>): void {
-      cache.clear();
-      Object.entries(record).forEach(([key, value]) => {
-        cache.set(key, value);
-      });
+      data = record;
+      owned = false;
+
+      index = indexes.get(record) ?? null;
+      indexOwned = false;
     },
   };
 }
 
-// Apply transitive closure to infer additional comparisons
-// If A > B and B > C, then A > C
-export function applyTransitiveClosure(cache: ComparisonCache, taskIds: TaskId[]): void {
-  // Build a directed graph of comparisons
-  const graph = new Map<TaskId, Set<TaskId>>();
-
-  taskIds.forEach(id => graph.set(id, new Set()));
-
-  // Add direct comparisons to graph
-  taskIds.forEach(a => {
-    taskIds.forEach(b => {
-      if (a === b) return;
-      const result = cache.get(a, b);
-      if (result === 1) {
-        // a > b
-        graph.get(a)?.add(b);
-      } else if (result === -1) {
-        // a < b, so b > a
-        graph.get(b)?.add(a);
-      }
+// Group tasks joined by tied answers (A = B, B = C puts A, B and C together)
+// Returns a map from each task to its group's root
+export function findTieClasses(cache: ComparisonCache, taskIds: TaskId[]): Map<TaskId, TaskId> {
+  const parent = new Map<TaskId, TaskId>();
+  taskIds.forEach(id => parent.set(id, id));
+
+  const find = (id: TaskId): TaskId => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+
+  taskIds.forEach((a, i) => {
+    taskIds.slice(i + 1).forEach(b => {
+      if (cache.get(a, b) === 0) parent.set(find(a), find(b));
     });
   });
 
-  // Floyd-Warshall-style transitive closure
-  taskIds.forEach(k => {
-    taskIds.forEach(i => {
-      taskIds.forEach(j => {
-        if (i === j || i === k || j === k) return;
+  const classes = new Map<TaskId, TaskId>();
+  taskIds.forEach(id => classes.set(id, find(id)));
+  return classes;
+}
 
-        const iGreaterK = graph.get(i)?.has(k);
-        const kGreaterJ = graph.get(k)?.has(j);
+// Split a ranked order into tiers: neighbours in the same tie class share a tier
+export function deriveTiers(cache: ComparisonCache, order: TaskId[]): TaskId[][] {
+  const classes = findTieClasses(cache, order);
+  const tiers: TaskId[][] = [];
+
+  order.forEach((id, i) => {
+    if (i > 0 && classes.get(id) === classes.get(order[i - 1])) {
+      tiers[tiers.length - 1].push(id);
+    } else {
+      tiers.push([id]);
+    }
+  });
 
-        if (iGreaterK && kGreaterJ) {
-          graph.get(i)?.add(j);
-          // Cache this inferred comparison
-          if (!cache.has(i, j)) {
-            cache.set(i, j, 1);
-          }
-        }
-      });
+  return tiers;
+}
+
+// Write every ordering implied by transitivity between `taskIds` into the cache
+// (ties carry through, so A = B and B > C gives A > C). Lookups already answer these
+// on the fly, so this is only needed when the full set of pairs must be stored.
+// Returns inferred orderings that contradict an answer already in the cache
+export function applyTransitiveClosure(cache: ComparisonCache, taskIds: TaskId[]): TransitiveConflict[] {
+  const index = createInferenceIndex();
+  const rejected: TransitiveConflict[] = [];
+
+  // Index the direct answers; ones that contradict earlier answers are set aside
+  taskIds.forEach((a, i) => {
+    taskIds.slice(i + 1).forEach(b => {
+      if (!cache.hasDirect(a, b)) return;
+
+      const cached = cache.get(a, b)!;
+      if (!index.add(a, b, cached)) rejected.push({ a, b, cached, inferred: cached });
+    });
+  });
+
+  const conflicts = rejected
+    .map(conflict => ({ ...conflict, inferred: index.compare(conflict.a, conflict.b) }))
+    .filter((conflict): conflict is TransitiveConflict => conflict.inferred !== undefined);
+
+  // Cache every inferred comparison
+  taskIds.forEach((a, i) => {
+    taskIds.slice(i + 1).forEach(b => {
+      if (cache.hasDirect(a, b)) return;
+
+      const inferred = index.compare(a, b);
+      if (inferred !== undefined) cache.set(a, b, inferred);
     });
   });
+
+  return conflicts;
 }
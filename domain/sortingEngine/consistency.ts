@@ -0,0 +1,191 @@
+// Consistency analysis over cached comparisons
+// Finds preference cycles (A>B, B>C, C>A, or A=B, B>C, C>A) and the answers behind each one
+
+import type { TaskId, CompareResult, SortingState, ComparisonLogEntry } from '../types';
+import type { ConsistencyReport, Inconsistency, SessionOptions } from './types';
+import { createCacheKey, parseCacheKey } from './cache';
+import { resetWithCache } from './registry';
+
+// Edge weight 1 means "preferred over"; ties are stored as 0 edges in both directions
+type Graph = Map<TaskId, Map<TaskId, 0 | 1>>;
+
+// Directed "at least as important as" graph from a cache record
+function buildGraph(record: Record<string, CompareResult>, taskIds?: TaskId[]): Graph {
+  const include = taskIds ? new Set(taskIds) : null;
+  const graph: Graph = new Map();
+
+  const addEdge = (from: TaskId, to: TaskId, weight: 0 | 1) => {
+    if (!graph.has(from)) graph.set(from, new Map());
+    if (!graph.has(to)) graph.set(to, new Map());
+    graph.get(from)!.set(to, weight);
+  };
+
+  Object.entries(record).forEach(([key, result]) => {
+    const [a, b] = parseCacheKey(key);
+    if (include && (!include.has(a) || !include.has(b))) return;
+
+    if (result === 1) addEdge(a, b, 1);
+    else if (result === -1) addEdge(b, a, 1);
+    else {
+      addEdge(a, b, 0);
+      addEdge(b, a, 0);
+    }
+  });
+
+  return graph;
+}
+
+// Tarjan's strongly connected components, iterative so long lists don't blow the stack
+function findComponents(graph: Graph): TaskId[][] {
+  const index = new Map<TaskId, number>();
+  const lowlink = new Map<TaskId, number>();
+  const onStack = new Set<TaskId>();
+  const stack: TaskId[] = [];
+  const components: TaskId[][] = [];
+  let counter = 0;
+
+  graph.forEach((_, root) => {
+    if (index.has(root)) return;
+
+    const work: { node: TaskId; edges: Iterator<TaskId> }[] = [];
+    const visit = (node: TaskId) => {
+      index.set(node, counter);
+      lowlink.set(node, counter);
+      counter++;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, edges: graph.get(node)!.keys() });
+    };
+
+    visit(root);
+
+    while (work.length > 0) {
+      const top = work[work.length - 1];
+      const step = top.edges.next();
+
+      if (!step.done) {
+        const next = step.value;
+        if (!index.has(next)) {
+          visit(next);
+        } else if (onStack.has(next)) {
+          lowlink.set(top.node, Math.min(lowlink.get(top.node)!, index.get(next)!));
+        }
+        continue;
+      }
+
+      // All edges explored, close the node
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(top.node)!));
+      }
+
+      if (lowlink.get(top.node) === index.get(top.node)) {
+        const component: TaskId[] = [];
+        let member: TaskId;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== top.node);
+        components.push(component);
+      }
+    }
+  });
+
+  return components;
+}
+
+// Shortest contradictory cycle inside one component: a strict edge u > v plus the
+// shortest path back from v to u. Cycles made only of ties are not contradictions.
+function shortestCycle(graph: Graph, component: TaskId[]): TaskId[] | null {
+  const members = new Set(component);
+  let best: TaskId[] | null = null;
+
+  for (const u of component) {
+    for (const [v, weight] of graph.get(u)!) {
+      if (weight !== 1 || !members.has(v)) continue;
+
+      // BFS from v back to u
+      const parent = new Map<TaskId, TaskId>([[v, v]]);
+      const queue: TaskId[] = [v];
+      for (let i = 0; i < queue.length && !parent.has(u); i++) {
+        for (const next of graph.get(queue[i])!.keys()) {
+          if (!members.has(next) || parent.has(next)) continue;
+          parent.set(next, queue[i]);
+          queue.push(next);
+        }
+      }
+      if (!parent.has(u)) continue;
+
+      // Walk back from u to v, then prepend u so the cycle reads u > v > ... > u
+      const path: TaskId[] = [];
+      for (let node = parent.get(u)!; node !== v; node = parent.get(node)!) {
+        path.unshift(node);
+      }
+      const cycle = [u, v, ...path];
+
+      if (!best || cycle.length < best.length) best = cycle;
+    }
+  }
+
+  return best;
+}
+
+// Find contradictory judgements in a cache record (optionally limited to `taskIds`)
+// Reported cycles never share a strict answer, so fixing one never hides another
+export function analyseConsistency(
+  record: Record<string, CompareResult>,
+  taskIds?: TaskId[]
+): ConsistencyReport {
+  const graph = buildGraph(record, taskIds);
+  const inconsistencies: Inconsistency[] = [];
+
+  let cyclic = true;
+  while (cyclic) {
+    cyclic = false;
+
+    for (const component of findComponents(graph)) {
+      if (component.length < 2) continue;
+
+      const cycle = shortestCycle(graph, component);
+      if (!cycle) continue;
+
+      cyclic = true;
+      const judgements: ComparisonLogEntry[] = cycle.map((a, i) => {
+        const b = cycle[(i + 1) % cycle.length];
+        const weight = graph.get(a)!.get(b)!;
+
+        // Retire strict answers so the next pass looks for a different cycle
+        if (weight === 1) graph.get(a)!.delete(b);
+        return { a, b, result: weight };
+      });
+
+      inconsistencies.push({ tasks: cycle, judgements });
+    }
+  }
+
+  return {
+    consistent: inconsistencies.length === 0,
+    inconsistencies,
+  };
+}
+
+// Drop the judgements behind each inconsistency and restart the session so only
+// those pairs (plus anything their new answers make necessary) are asked again
+export function reaskInconsistencies(
+  state: SortingState,
+  taskIds: TaskId[],
+  report: ConsistencyReport,
+  options?: Omit<SessionOptions, 'cache'>
+): SortingState {
+  const cache = { ...state.cache };
+
+  report.inconsistencies.forEach(({ judgements }) => {
+    judgements.forEach(({ a, b }) => {
+      delete cache[createCacheKey(a, b)];
+    });
+  });
+
+  return resetWithCache({ ...state, cache }, taskIds, options);
+}
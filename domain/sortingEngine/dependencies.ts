@@ -0,0 +1,180 @@
+// Task dependencies as ranking constraints: a blocker always ranks above the tasks it blocks
+// Sessions get each dependency as an answer that is already known, so those pairs are never
+// asked, and finished orders are repaired in case older answers contradict a dependency
+
+import type { TaskId, Task, CompareResult, SortingState } from '../types';
+import { createCacheKey } from './cache';
+import { createHistory } from './history';
+
+// [blocker, blocked] pairs where both tasks are among `taskIds` (all tasks when omitted)
+export function dependencyPairs(tasks: Record<TaskId, Task>, taskIds?: TaskId[]): [TaskId, TaskId][] {
+  const include = new Set(taskIds ?? Object.keys(tasks));
+  const pairs: [TaskId, TaskId][] = [];
+
+  include.forEach(id => {
+    tasks[id]?.blockedBy?.forEach(blocker => {
+      if (blocker !== id && include.has(blocker)) pairs.push([blocker, id]);
+    });
+  });
+
+  return pairs;
+}
+
+// Chain of blockers leading from `from` to `to` (both included), or null if there is none
+export function findDependencyPath(tasks: Record<TaskId, Task>, from: TaskId, to: TaskId): TaskId[] | null {
+  const previous = new Map<TaskId, TaskId | null>([[from, null]]);
+  const queue: TaskId[] = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path: TaskId[] = [];
+      for (let id: TaskId | null = current; id !== null; id = previous.get(id) ?? null) path.unshift(id);
+      return path;
+    }
+
+    tasks[current]?.blockedBy?.forEach(blocker => {
+      if (previous.has(blocker)) return;
+      previous.set(blocker, current);
+      queue.push(blocker);
+    });
+  }
+
+  return null;
+}
+
+// The cycle that making `taskId` wait on `blockerId` would close, or null if it is safe
+// e.g. [blocker, ..., task] when the blocker already (indirectly) waits on the task
+export function findDependencyCycle(tasks: Record<TaskId, Task>, taskId: TaskId, blockerId: TaskId): TaskId[] | null {
+  if (taskId === blockerId) return [taskId];
+  return findDependencyPath(tasks, blockerId, taskId);
+}
+
+// Blocked tasks: not done and waiting on at least one blocker that is not done
+export function isBlocked(task: Task, tasks: Record<TaskId, Task>): boolean {
+  return !task.done && (task.blockedBy ?? []).some(id => tasks[id] && !tasks[id].done);
+}
+
+// Remove deleted tasks from every other task's blockers
+export function removeBlockers(tasks: Record<TaskId, Task>, removedIds: TaskId[]): Record<TaskId, Task> {
+  const removed = new Set(removedIds);
+  let changed = false;
+
+  const next: Record<TaskId, Task> = {};
+  Object.entries(tasks).forEach(([id, task]) => {
+    if (task.blockedBy?.some(blocker => removed.has(blocker))) {
+      next[id] = { ...task, blockedBy: task.blockedBy.filter(blocker => !removed.has(blocker)) };
+      changed = true;
+    } else {
+      next[id] = task;
+    }
+  });
+
+  return changed ? next : tasks;
+}
+
+// Write each dependency into a cache record as a known answer, replacing any answer
+// that contradicts it. `seeded` keeps what each written key held before (null if
+// nothing), so a real answer can be handed back once the dependency goes.
+export function seedDependencies(
+  cache: Record<string, CompareResult>,
+  pairs: [TaskId, TaskId][]
+): { cache: Record<string, CompareResult>; seeded: Record<string, CompareResult | null> } {
+  if (pairs.length === 0) return { cache, seeded: {} };
+
+  const next = { ...cache };
+  const seeded: Record<string, CompareResult | null> = {};
+  pairs.forEach(([blocker, blocked]) => {
+    const key = createCacheKey(blocker, blocked);
+    if (!(key in seeded)) seeded[key] = cache[key] ?? null;
+    // Keys store the result for the smaller ID
+    next[key] = blocker < blocked ? 1 : -1;
+  });
+  return { cache: next, seeded };
+}
+
+// Take seeded answers back out of a cache record, restoring what they replaced;
+// only `keys` when given. Keys dropped from the cache since stay dropped.
+export function unseedDependencies(
+  cache: Record<string, CompareResult>,
+  seeded: Record<string, CompareResult | null> | undefined,
+  keys: string[] = Object.keys(seeded ?? {})
+): Record<string, CompareResult> {
+  const restore = keys.filter(key => seeded && key in seeded && key in cache);
+  if (restore.length === 0) return cache;
+
+  const next = { ...cache };
+  restore.forEach(key => {
+    const original = seeded![key];
+    if (original === null) delete next[key];
+    else next[key] = original;
+  });
+  return next;
+}
+
+// A dependency was removed: hand back whatever answer its seed replaced. The undo base
+// and log were built on the seeded answer, so undo starts again from here.
+export function releaseDependency(state: SortingState, blocker: TaskId, blocked: TaskId): SortingState {
+  const key = createCacheKey(blocker, blocked);
+  if (!state.seeded || !(key in state.seeded)) return state;
+
+  const seeded = { ...state.seeded };
+  delete seeded[key];
+  const cache = unseedDependencies(state.cache, state.seeded, [key]);
+  const next = { ...state, cache, seeded: Object.keys(seeded).length > 0 ? seeded : undefined };
+
+  return cache !== state.cache && state.history ? { ...next, history: createHistory(next) } : next;
+}
+
+// A dependency was added while a session over both tasks is running: seed its answer
+// so the pair is never asked. As with a release, undo starts again from here.
+export function holdDependency(state: SortingState, blocker: TaskId, blocked: TaskId): SortingState {
+  if (!state.internal || !state.taskIds?.includes(blocker) || !state.taskIds.includes(blocked)) return state;
+
+  const key = createCacheKey(blocker, blocked);
+  if (state.seeded && key in state.seeded) return state;
+
+  const { cache, seeded } = seedDependencies(state.cache, [[blocker, blocked]]);
+  const next = { ...state, cache, seeded: { ...state.seeded, ...seeded } };
+
+  return cache[key] !== state.cache[key] && state.history ? { ...next, history: createHistory(next) } : next;
+}
+
+// Move tasks down as little as needed so none sits above one of its blockers.
+// Repeatedly takes the earliest task in `order` whose blockers are all placed.
+// Tasks caught in a dependency cycle keep their relative order at the end.
+export function respectDependencies(order: TaskId[], tasks: Record<TaskId, Task>): TaskId[] {
+  const waitingOn = new Map<TaskId, number>();
+  const unblocks = new Map<TaskId, TaskId[]>();
+
+  dependencyPairs(tasks, order).forEach(([blocker, blocked]) => {
+    waitingOn.set(blocked, (waitingOn.get(blocked) ?? 0) + 1);
+    unblocks.set(blocker, [...(unblocks.get(blocker) ?? []), blocked]);
+  });
+  if (waitingOn.size === 0) return order;
+
+  const position = new Map(order.map((id, i) => [id, i]));
+  const ready = order.filter(id => !waitingOn.has(id));
+  const result: TaskId[] = [];
+
+  while (ready.length > 0) {
+    // Ready tasks are kept sorted by original position
+    const next = ready.shift()!;
+    result.push(next);
+
+    (unblocks.get(next) ?? []).forEach(blocked => {
+      const left = waitingOn.get(blocked)! - 1;
+      waitingOn.set(blocked, left);
+      if (left > 0) return;
+
+      const at = ready.findIndex(id => position.get(id)! > position.get(blocked)!);
+      ready.splice(at === -1 ? ready.length : at, 0, blocked);
+    });
+  }
+
+  if (result.length < order.length) {
+    const placed = new Set(result);
+    result.push(...order.filter(id => !placed.has(id)));
+  }
+  return result;
+}
@@ -0,0 +1,133 @@
+// Comparison log for undo/redo within a sorting session
+// Engines mutate their cursors in place, so undo replays the log from a snapshot
+// of the session start instead of trying to invert each step
+
+import type { SortingState, ComparisonHistory, ComparisonLogEntry } from '../types';
+import type { SortEngine } from './types';
+
+// Snapshot a freshly created session as the replay base
+export function createHistory(state: SortingState): ComparisonHistory {
+  return {
+    base: structuredClone({
+      internal: state.internal,
+      cache: state.cache,
+      comparisonsAsked: state.comparisonsAsked,
+    }),
+    log: [],
+    redo: [],
+  };
+}
+
+// Append an answer to the log; a new answer discards anything left to redo
+export function recordComparison(state: SortingState, entry: ComparisonLogEntry): SortingState {
+  if (!state.history) return state;
+
+  return {
+    ...state,
+    history: {
+      ...state.history,
+      log: [...state.history.log, entry],
+      redo: [],
+    },
+  };
+}
+
+// Advance to the logged pair and apply it; null if the engine asks something else
+function replayEntry(engine: SortEngine, state: SortingState, entry: ComparisonLogEntry): SortingState | null {
+  const pair = engine.next(state);
+  if (!pair) return null;
+
+  const matches =
+    (pair.a === entry.a && pair.b === entry.b) ||
+    (pair.a === entry.b && pair.b === entry.a);
+
+  return matches ? engine.commit(state, entry.a, entry.b, entry.result) : null;
+}
+
+// Rebuild the session from its base with the first `count` logged answers
+function replay(engine: SortEngine, state: SortingState, history: ComparisonHistory, count: number): SortingState {
+  const base = structuredClone(history.base);
+  let current: SortingState = {
+    ...state,
+    internal: base.internal,
+    cache: base.cache,
+    comparisonsAsked: base.comparisonsAsked,
+  };
+
+  for (const entry of history.log.slice(0, count)) {
+    const next = replayEntry(engine, current, entry);
+    if (!next) {
+      throw new Error(`Comparison log no longer matches the session at ${entry.a}|${entry.b}`);
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+export function canUndo(state: SortingState): boolean {
+  return !!state.history && state.history.log.length > 0;
+}
+
+export function canRedo(state: SortingState): boolean {
+  return !!state.history && state.history.redo.length > 0;
+}
+
+// Undo the last `steps` answers, restoring the cursor and cache exactly
+export function undo(engine: SortEngine, state: SortingState, steps = 1): SortingState {
+  const history = state.history;
+  if (!history || steps <= 0 || history.log.length === 0) return state;
+
+  const keep = Math.max(0, history.log.length - steps);
+  const undone = history.log.slice(keep).reverse();
+
+  return {
+    ...replay(engine, state, history, keep),
+    history: {
+      ...history,
+      log: history.log.slice(0, keep),
+      redo: [...history.redo, ...undone],
+    },
+  };
+}
+
+// Re-apply up to `steps` undone answers
+export function redo(engine: SortEngine, state: SortingState, steps = 1): SortingState {
+  const history = state.history;
+  if (!history || steps <= 0 || history.redo.length === 0) return state;
+
+  // Work on a copy so a mismatch leaves the caller's state untouched
+  let current: SortingState = structuredClone({ ...state, history: undefined });
+  const redoStack = [...history.redo];
+  const log = [...history.log];
+
+  for (let i = 0; i < steps && redoStack.length > 0; i++) {
+    const entry = redoStack[redoStack.length - 1];
+    const next = replayEntry(engine, current, entry);
+    if (!next) break;
+
+    current = next;
+    redoStack.pop();
+    log.push(entry);
+  }
+
+  return {
+    ...current,
+    history: { ...history, log, redo: redoStack },
+  };
+}
+
+// Check that a persisted history is structurally sound
+export function validateHistory(history: unknown): history is ComparisonHistory {
+  if (!history || typeof history !== 'object') return false;
+
+  const h = history as ComparisonHistory;
+  return (
+    !!h.base &&
+    typeof h.base === 'object' &&
+    !!h.base.cache &&
+    typeof h.base.comparisonsAsked === 'number' &&
+    Array.isArray(h.log) &&
+    Array.isArray(h.redo)
+  );
+}
@@ -0,0 +1,146 @@
+// Incremental transitive inference over comparison answers
+// Keeps a reachability index over the DAG of tie classes so "is A above B?" is a
+// bit test, and each new answer costs O(affected nodes × n/32) instead of O(n³)
+
+import type { TaskId, CompareResult } from '../types';
+
+type Bitset = number[];
+
+function hasBit(bits: Bitset, i: number): boolean {
+  return ((bits[i >>> 5] ?? 0) & (1 << (i & 31))) !== 0;
+}
+
+function setBit(bits: Bitset, i: number): void {
+  const word = i >>> 5;
+  while (bits.length <= word) bits.push(0);
+  bits[word] |= 1 << (i & 31);
+}
+
+function orInto(target: Bitset, source: Bitset): void {
+  while (target.length < source.length) target.push(0);
+  for (let w = 0; w < source.length; w++) target[w] |= source[w];
+}
+
+function forEachBit(bits: Bitset, fn: (i: number) => void): void {
+  for (let w = 0; w < bits.length; w++) {
+    let word = bits[w];
+    while (word !== 0) {
+      const low = word & -word;
+      fn(w * 32 + 31 - Math.clz32(low));
+      word ^= low;
+    }
+  }
+}
+
+export interface InferenceIndex {
+  // Record an answer; false (and no change) if it contradicts what is already known
+  add(a: TaskId, b: TaskId, result: CompareResult): boolean;
+  // Known or inferred ordering of a relative to b
+  compare(a: TaskId, b: TaskId): CompareResult | undefined;
+  // Independent copy; answers added to either side stay out of the other
+  clone(): InferenceIndex;
+}
+
+interface IndexState {
+  ids: Map<TaskId, number>;
+  parent: number[];                // union-find over tie classes
+  below: Bitset[];                 // per root: roots strictly below it
+  above: Bitset[];                 // per root: roots strictly above it
+}
+
+export function createInferenceIndex(): InferenceIndex {
+  return indexOver({ ids: new Map(), parent: [], below: [], above: [] });
+}
+
+function indexOver({ ids, parent, below, above }: IndexState): InferenceIndex {
+
+  const nodeOf = (id: TaskId): number => {
+    let node = ids.get(id);
+    if (node === undefined) {
+      node = parent.length;
+      ids.set(id, node);
+      parent.push(node);
+      below.push([]);
+      above.push([]);
+    }
+    return node;
+  };
+
+  const find = (node: number): number => {
+    while (parent[node] !== node) {
+      parent[node] = parent[parent[node]];
+      node = parent[node];
+    }
+    return node;
+  };
+
+  // x is strictly above y (both roots)
+  const reaches = (x: number, y: number) => hasBit(below[x], y);
+
+  // Copy a bitset, optionally adding one more node
+  const withNode = (bits: Bitset, node?: number): Bitset => {
+    const copy = [...bits];
+    if (node !== undefined) setBit(copy, node);
+    return copy;
+  };
+
+  // Put every root in `upper` above every root in `lower`
+  // Bits for nodes merged into another class go stale; only roots are read
+  const spread = (upper: Bitset, lower: Bitset) => {
+    forEachBit(upper, x => {
+      if (find(x) === x) orInto(below[x], lower);
+    });
+    forEachBit(lower, y => {
+      if (find(y) === y) orInto(above[y], upper);
+    });
+  };
+
+  return {
+    add(a: TaskId, b: TaskId, result: CompareResult): boolean {
+      if (a === b) return result === 0;
+
+      const ra = find(nodeOf(a));
+      const rb = find(nodeOf(b));
+
+      if (result === 0) {
+        if (ra === rb) return true;
+        if (reaches(ra, rb) || reaches(rb, ra)) return false;
+
+        // Merge the two tie classes, then spread their combined relations
+        parent[rb] = ra;
+        orInto(below[ra], below[rb]);
+        orInto(above[ra], above[rb]);
+        spread(withNode(above[ra]), withNode(below[ra], ra));
+        spread(withNode(above[ra], ra), withNode(below[ra]));
+        return true;
+      }
+
+      const [top, bottom] = result === 1 ? [ra, rb] : [rb, ra];
+      if (top === bottom || reaches(bottom, top)) return false;
+      if (!reaches(top, bottom)) spread(withNode(above[top], top), withNode(below[bottom], bottom));
+      return true;
+    },
+
+    compare(a: TaskId, b: TaskId): CompareResult | undefined {
+      const na = ids.get(a);
+      const nb = ids.get(b);
+      if (na === undefined || nb === undefined) return undefined;
+
+      const ra = find(na);
+      const rb = find(nb);
+      if (ra === rb) return 0;
+      if (reaches(ra, rb)) return 1;
+      if (reaches(rb, ra)) return -1;
+      return undefined;
+    },
+
+    clone(): InferenceIndex {
+      return indexOver({
+        ids: new Map(ids),
+        parent: [...parent],
+        below: below.map(bits => [...bits]),
+        above: above.map(bits => [...bits]),
+      });
+    },
+  };
+}
@@ -0,0 +1,244 @@
+// Binary-insertion comparison engine for slotting new tasks into an existing ranking
+// O(log n) comparisons per inserted task; the existing order is never re-asked
+
+import type { TaskId, CompareResult, SortingState, InsertionSortState, InsertionFrame } from '../types';
+import type { ComparisonPair, SortingProgress, SortEngine, RemainingComparisons } from './types';
+import { createComparisonCache } from './cache';
+
+// Worst-case comparisons to binary-insert `count` tasks into a ranking of `size`
+function estimateComparisons(size: number, count: number): number {
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    total += Math.ceil(Math.log2(size + i + 1));
+  }
+  return total;
+}
+
+// Create a new insertion session: `rankedIds` stays fixed, `newIds` get slotted in
+export function createSession(
+  rankedIds: TaskId[],
+  newIds: TaskId[],
+  existingCache?: Record<string, CompareResult>
+): SortingState {
+  const cache = createComparisonCache(existingCache);
+
+  // Ignore tasks that already have a place in the ranking
+  const ranked = new Set(rankedIds);
+  const pending = newIds.filter(id => !ranked.has(id));
+
+  return {
+    algo: 'insertion',
+    comparisonsAsked: 0,
+    comparisonsTotal: estimateComparisons(rankedIds.length, pending.length),
+    cache: cache.toRecord(),
+    internal: {
+      kind: 'insertion',
+      sorted: [...rankedIds],
+      pending,
+      frame: null,
+    },
+  };
+}
+
+// Get the next pair to compare, or null if every pending task has been placed
+export function requestNextPair(state: SortingState): ComparisonPair | null {
+  if (!state.internal) return null;
+
+  const internal = state.internal as InsertionSortState;
+  const cache = createComparisonCache(state.cache);
+
+  // No search in progress, start inserting the next pending task
+  if (!internal.frame) {
+    const taskId = internal.pending.shift();
+    if (taskId === undefined) return null;
+
+    internal.frame = { taskId, lo: 0, hi: internal.sorted.length };
+  }
+
+  const frame = internal.frame;
+
+  // Search window closed, the task belongs at `lo`
+  if (frame.lo >= frame.hi) {
+    internal.sorted.splice(frame.lo, 0, frame.taskId);
+    internal.frame = null;
+    return requestNextPair(state);
+  }
+
+  const a = frame.taskId;
+  const b = internal.sorted[midpoint(frame)];
+
+  // Check cache
+  if (cache.has(a, b)) {
+    narrowFrame(frame, cache.get(a, b)!);
+    return requestNextPair(state);
+  }
+
+  return { a, b };
+}
+
+function midpoint(frame: InsertionFrame): number {
+  return Math.floor((frame.lo + frame.hi) / 2);
+}
+
+// Narrow the search window; `result` is from the inserted task's point of view
+function narrowFrame(frame: InsertionFrame, result: CompareResult): void {
+  const mid = midpoint(frame);
+  if (result === 1) {
+    // New task is greater, it ranks above the midpoint
+    frame.hi = mid;
+  } else if (result === 0) {
+    // Tie: slot in right after the midpoint, in the same tier
+    frame.lo = mid + 1;
+    frame.hi = mid + 1;
+  } else {
+    // New task is lower, it ranks below the midpoint
+    frame.lo = mid + 1;
+  }
+}
+
+// Commit a comparison result and advance the binary search
+export function commitComparison(
+  state: SortingState,
+  a: TaskId,
+  b: TaskId,
+  result: CompareResult
+): SortingState {
+  const cache = createComparisonCache(state.cache);
+  const internal = state.internal as InsertionSortState;
+
+  // Cache the result
+  cache.set(a, b, result);
+
+  // Advance the current search, flipping the result if the pair came in reversed
+  if (internal.frame) {
+    const oriented = a === internal.frame.taskId ? result : (result === 0 ? 0 : -result) as CompareResult;
+    narrowFrame(internal.frame, oriented);
+  }
+
+  return {
+    ...state,
+    comparisonsAsked: state.comparisonsAsked + 1,
+    cache: cache.toRecord(),
+    internal,
+  };
+}
+
+// Check if every pending task has been inserted
+export function isComplete(state: SortingState): boolean {
+  if (!state.internal) return true;
+
+  const internal = state.internal as InsertionSortState;
+  return internal.pending.length === 0 && internal.frame === null;
+}
+
+// Get the ranking so far (only contains every task when isComplete returns true)
+export function finalize(state: SortingState): TaskId[] {
+  if (!state.internal) return [];
+
+  const internal = state.internal as InsertionSortState;
+  return internal.sorted;
+}
+
+// Questions left: one binary search over the open window, then one per pending task.
+// A search never takes more than log2 of its positions, but pairs the cache answers or
+// implies are skipped and a tie ends it, so only a pair known to be unanswered counts
+// towards the minimum.
+export function estimateRemaining(state: SortingState): RemainingComparisons {
+  if (!state.internal) return { min: 0, max: 0, expected: 0 };
+
+  const internal = state.internal as InsertionSortState;
+  const cache = createComparisonCache(state.cache);
+  const placed = [...internal.sorted];
+  let min = 0;
+  let max = 0;
+  let expected = 0;
+
+  // A window of w slots holds w + 1 possible positions
+  const search = (positions: number) => {
+    max += Math.ceil(Math.log2(positions));
+    expected += Math.log2(positions);
+  };
+
+  // Open search: skip the answers already known, then count what is left of its window
+  if (internal.frame) {
+    const frame = { ...internal.frame };
+    while (frame.lo < frame.hi && cache.has(frame.taskId, internal.sorted[midpoint(frame)])) {
+      narrowFrame(frame, cache.get(frame.taskId, internal.sorted[midpoint(frame)])!);
+    }
+    if (frame.lo < frame.hi) {
+      search(frame.hi - frame.lo + 1);
+      // The pair the search stopped on is unanswered
+      min += 1;
+    }
+    placed.push(frame.taskId);
+  }
+
+  // Where a pending task lands depends on the tasks before it, so any answer about it
+  // could be the one its first question needs; one with none must be asked something
+  internal.pending.forEach(taskId => {
+    if (placed.length > 0) {
+      search(placed.length + 1);
+      if (!placed.some(other => cache.has(taskId, other))) min += 1;
+    }
+    placed.push(taskId);
+  });
+
+  return {
+    min,
+    max,
+    expected: Math.min(max, Math.max(min, Math.round(expected))),
+  };
+}
+
+// Get current progress against the live estimate of what is left
+export function getProgress(state: SortingState): SortingProgress {
+  const current = state.comparisonsAsked;
+  const remaining = estimateRemaining(state);
+  const total = current + remaining.expected;
+  const percentage = total > 0 ? Math.round((current / total) * 100) : 100;
+
+  return {
+    current,
+    total,
+    percentage: Math.min(100, percentage),
+    remaining,
+  };
+}
+
+// Start a fresh insertion for `newIds` but keep the cache
+export function resetWithCache(state: SortingState, rankedIds: TaskId[], newIds: TaskId[]): SortingState {
+  return createSession(rankedIds, newIds, state.cache);
+}
+
+// Validate that an insertion state is well-formed
+export function validateState(state: SortingState): boolean {
+  if (!state || typeof state !== 'object') return false;
+  if (state.algo !== 'insertion' || !state.internal) return false;
+
+  const internal = state.internal as InsertionSortState;
+  if (internal.kind !== 'insertion') return false;
+  if (!Array.isArray(internal.sorted) || !Array.isArray(internal.pending)) return false;
+  if (internal.frame === null) return true;
+
+  const { frame } = internal;
+  return (
+    typeof frame === 'object' &&
+    typeof frame.taskId === 'string' &&
+    Number.isInteger(frame.lo) &&
+    Number.isInteger(frame.hi) &&
+    frame.lo >= 0 &&
+    frame.hi <= internal.sorted.length
+  );
+}
+
+export const insertionEngine: SortEngine = {
+  algo: 'insertion',
+  // `taskIds` are the tasks to insert; `baseOrder` is the ranking they go into
+  create: (taskIds, options) => createSession(options?.baseOrder ?? [], taskIds, options?.cache),
+  next: requestNextPair,
+  commit: commitComparison,
+  isComplete,
+  finalize,
+  progress: getProgress,
+  validate: validateState,
+};
@@ -2,7 +2,7 @@
 // O(n log n) comparisons on average
 
 import type { TaskId, CompareResult, SortingState, MergeSortState, MergeFrame } from '../types';
-import type { ComparisonPair, SortingProgress } from './types';
+import type { ComparisonPair, SortingProgress, SortEngine, RemainingComparisons } from './types';
 import { createComparisonCache } from './cache';
 
 // Calculate estimated total comparisons for merge sort
@@ -25,9 +25,11 @@ export function createSession(taskIds: TaskId[], existingCache?: Record<string,
     comparisonsTotal: estimateComparisons(taskIds.length),
     cache: cache.toRecord(),
     internal: {
+      kind: 'merge',
       runs,
       stack: [],
       result: [],
+      groups: {},
     },
   };
 }
@@ -70,7 +72,7 @@ export function requestNextPair(state: SortingState): ComparisonPair | null {
     // Check cache
     if (cache.has(a, b)) {
       const result = cache.get(a, b)!;
-      advanceFrame(frame, result);
+      advanceFrame(internal, frame, result);
       return requestNextPair(state);
     }
 
@@ -106,9 +108,19 @@ export function requestNextPair(state: SortingState): ComparisonPair | null {
 }
 
 // Advance a merge frame based on comparison result
-function advanceFrame(frame: MergeFrame, result: CompareResult): void {
-  if (result === 1 || result === 0) {
-    // Left element is greater or equal, take it first (descending order)
+function advanceFrame(internal: MergeSortState, frame: MergeFrame, result: CompareResult): void {
+  if (result === 0) {
+    // Tie: the right element joins the left element's group and only the
+    // left one (the group's representative) is compared from now on
+    const left = frame.left[frame.leftIdx++];
+    const right = frame.right[frame.rightIdx++];
+    const groups = internal.groups ?? (internal.groups = {});
+
+    groups[left] = [...(groups[left] ?? []), right, ...(groups[right] ?? [])];
+    delete groups[right];
+    frame.merged.push(left);
+  } else if (result === 1) {
+    // Left element is greater, take it first (descending order)
     frame.merged.push(frame.left[frame.leftIdx++]);
   } else {
     // Right element is greater
@@ -132,7 +144,7 @@ export function commitComparison(
   // Advance the current frame
   if (internal.stack.length > 0) {
     const frame = internal.stack[internal.stack.length - 1];
-    advanceFrame(frame, result);
+    advanceFrame(internal, frame, result);
   }
 
   return {
@@ -153,27 +165,114 @@ export function isComplete(state: SortingState): boolean {
 
 // Get the final sorted order (only valid when isComplete returns true)
 export function finalize(state: SortingState): TaskId[] {
+  return finalizeTiers(state).flat();
+}
+
+// Get the final order as tiers of equally ranked tasks, top tier first
+export function finalizeTiers(state: SortingState): TaskId[][] {
   if (!state.internal) return [];
 
   const internal = state.internal as MergeSortState;
+  const representatives = internal.runs.length === 1 ? internal.runs[0] : internal.result;
+  const groups = internal.groups ?? {};
 
-  if (internal.runs.length === 1) {
-    return internal.runs[0];
+  return representatives.map(id => [id, ...(groups[id] ?? [])]);
+}
+
+// Expected comparisons to merge runs of p and q when every interleaving is equally likely
+function expectedMergeCost(p: number, q: number): number {
+  if (p === 0 || q === 0) return 0;
+  return p + q - p / (q + 1) - q / (p + 1);
+}
+
+// A run as it will be when its turn to merge comes: the tasks that may still be in it,
+// and the fewest it can hold if every answer until then is a tie
+interface PendingRun {
+  ids: TaskId[];
+  least: number;
+}
+
+// Work out the questions left from the live merge state rather than the up-front estimate.
+// A merge takes at least one answer per task on its shorter side and at most one fewer
+// than both sides together, and never asks a pair the cache answers or implies.
+export function estimateRemaining(state: SortingState): RemainingComparisons {
+  const none = { min: 0, max: 0, expected: 0 };
+  if (!state.internal) return none;
+
+  const internal = state.internal as MergeSortState;
+  const cache = createComparisonCache(state.cache);
+  const runs: PendingRun[] = internal.runs.map(run => ({ ids: run, least: run.length }));
+  let min = 0;
+  let max = 0;
+  let expected = 0;
+
+  const merge = (left: PendingRun, right: PendingRun) => {
+    let known = 0;
+    left.ids.forEach(a => right.ids.forEach(b => {
+      if (cache.has(a, b)) known++;
+    }));
+    const pairs = left.ids.length * right.ids.length;
+    const unknown = pairs - known;
+
+    min += Math.max(0, Math.min(left.least, right.least) - known);
+    max += Math.min(left.ids.length + right.ids.length - 1, unknown);
+    expected += pairs > 0 ? expectedMergeCost(left.ids.length, right.ids.length) * (unknown / pairs) : 0;
+  };
+
+  // Open frame: skip the answers already known, then count what is left of it
+  const frame = internal.stack[internal.stack.length - 1];
+  if (frame) {
+    let leftIdx = frame.leftIdx;
+    let rightIdx = frame.rightIdx;
+    const merged = [...frame.merged];
+
+    while (leftIdx < frame.left.length && rightIdx < frame.right.length) {
+      const result = cache.get(frame.left[leftIdx], frame.right[rightIdx]);
+      if (result === undefined) break;
+      merged.push(result === -1 ? frame.right[rightIdx] : frame.left[leftIdx]);
+      if (result !== -1) leftIdx++;
+      if (result !== 1) rightIdx++;
+    }
+
+    const left = frame.left.slice(leftIdx);
+    const right = frame.right.slice(rightIdx);
+    if (left.length > 0 && right.length > 0) {
+      merge({ ids: left, least: left.length }, { ids: right, least: right.length });
+      // The pair the frame stopped on is unanswered, so at least that one is asked
+      min = Math.max(min, 1);
+    }
+
+    runs.push({ ids: [...merged, ...left, ...right], least: merged.length + Math.max(left.length, right.length) });
   }
 
-  return internal.result;
+  // Replay the remaining merge schedule; a tie folds one task into another, so a merged
+  // run holds at least as many tasks as its larger side
+  while (runs.length > 1) {
+    const left = runs.shift()!;
+    const right = runs.shift()!;
+    merge(left, right);
+    runs.push({ ids: [...left.ids, ...right.ids], least: Math.max(left.least, right.least) });
+  }
+
+  return {
+    min,
+    max,
+    expected: Math.min(max, Math.max(min, Math.round(expected))),
+  };
 }
 
-// Get current progress
+// Get current progress against the live estimate of what is left
 export function getProgress(state: SortingState): SortingProgress {
   const current = state.comparisonsAsked;
-  const total = state.comparisonsTotal;
-  const percentage = total > 0 ? Math.round((current / total) * 100) : 0;
+  const remaining = estimateRemaining(state);
+  const total = current + remaining.expected;
+  const percentage = total > 0 ? Math.round((current / total) * 100) : 100;
 
   return {
     current,
     total,
     percentage: Math.min(100, percentage),
+    remaining,
   };
 }
 
@@ -185,12 +284,26 @@ export function resetWithCache(state: SortingState, taskIds: TaskId[]): SortingS
 // Validate that a sorting state is well-formed
 export function validateState(state: SortingState): boolean {
   if (!state || typeof state !== 'object') return false;
-  if (!state.internal) return false;
+  if (state.algo !== 'merge' || !state.internal) return false;
 
   const internal = state.internal as MergeSortState;
   return (
+    internal.kind === 'merge' &&
     Array.isArray(internal.runs) &&
     Array.isArray(internal.stack) &&
-    Array.isArray(internal.result)
+    Array.isArray(internal.result) &&
+    (internal.groups === undefined || typeof internal.groups === 'object')
   );
 }
+
+export const mergeEngine: SortEngine = {
+  algo: 'merge',
+  create: (taskIds, options) => createSession(taskIds, options?.cache),
+  next: requestNextPair,
+  commit: commitComparison,
+  isComplete,
+  finalize,
+  tiers: finalizeTiers,
+  progress: getProgress,
+  validate: validateState,
+};
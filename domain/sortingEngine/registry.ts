@@ -0,0 +1,138 @@
+// Engine registry: one API for driving a sorting session regardless of strategy
+// Dispatches on SortingState.algo to the engine that owns the session
+
+import type { TaskId, CompareResult, SortAlgo, SortingState, SortSettings } from '../types';
+import type { ComparisonPair, SortingProgress, SortEngine, SessionOptions } from './types';
+import { mergeEngine } from './mergeEngine';
+import { insertionEngine } from './insertionEngine';
+import { tournamentEngine } from './tournamentEngine';
+import { bradleyTerryEngine } from './bradleyTerryEngine';
+import * as history from './history';
+import { createComparisonCache, deriveTiers } from './cache';
+import { recordAnswerMeta } from './staleness';
+import { seedDependencies, unseedDependencies } from './dependencies';
+import { validateScope } from './scope';
+
+const engines: Record<SortAlgo, SortEngine> = {
+  merge: mergeEngine,
+  insertion: insertionEngine,
+  tournament: tournamentEngine,
+  'bradley-terry': bradleyTerryEngine,
+};
+
+export function getEngine(algo: SortAlgo): SortEngine {
+  const engine = engines[algo];
+  if (!engine) {
+    throw new Error(`Unknown sorting algorithm: ${algo}`);
+  }
+  return engine;
+}
+
+export function isKnownAlgo(algo: unknown): algo is SortAlgo {
+  return typeof algo === 'string' && algo in engines;
+}
+
+// Create a new sorting session with the given strategy
+// Dependencies go into the cache up front, so they are part of the undo base
+export function createSession(algo: SortAlgo, taskIds: TaskId[], options?: SessionOptions): SortingState {
+  const { cache, seeded } = options?.dependencies?.length
+    ? seedDependencies(options.cache ?? {}, options.dependencies)
+    : { cache: options?.cache, seeded: {} };
+  const state = getEngine(algo).create(taskIds, { ...options, cache });
+  const settings: SortSettings = {
+    baseOrder: options?.baseOrder,
+    topK: options?.topK,
+    confidence: options?.confidence,
+    maxComparisons: options?.maxComparisons,
+  };
+
+  return {
+    ...state,
+    taskIds,
+    settings,
+    seeded: Object.keys(seeded).length > 0 ? seeded : undefined,
+    history: history.createHistory(state),
+  };
+}
+
+// Get the next pair to compare, or null if sorting is complete
+export function requestNextPair(state: SortingState): ComparisonPair | null {
+  return getEngine(state.algo).next(state);
+}
+
+// Commit a comparison result and advance the session
+// `revisions` are the current revisions of a and b, stored so edits can age the answer
+export function commitComparison(
+  state: SortingState,
+  a: TaskId,
+  b: TaskId,
+  result: CompareResult,
+  revisions?: Partial<Record<TaskId, number>>
+): SortingState {
+  const next = getEngine(state.algo).commit(state, a, b, result);
+  return recordAnswerMeta(history.recordComparison(next, { a, b, result }), a, b, revisions);
+}
+
+// Undo the last `steps` answers, restoring the cursor and cache exactly
+export function undoComparison(state: SortingState, steps = 1): SortingState {
+  return history.undo(getEngine(state.algo), state, steps);
+}
+
+// Re-apply up to `steps` undone answers
+export function redoComparison(state: SortingState, steps = 1): SortingState {
+  return history.redo(getEngine(state.algo), state, steps);
+}
+
+export const canUndoComparison = history.canUndo;
+export const canRedoComparison = history.canRedo;
+
+// Check if sorting is complete
+export function isComplete(state: SortingState): boolean {
+  return getEngine(state.algo).isComplete(state);
+}
+
+// Get the final sorted order (only valid when isComplete returns true)
+export function finalize(state: SortingState): TaskId[] {
+  return getEngine(state.algo).finalize(state);
+}
+
+// Get the final order as tiers of equally ranked tasks, top tier first
+export function finalizeTiers(state: SortingState): TaskId[][] {
+  const engine = getEngine(state.algo);
+  if (engine.tiers) return engine.tiers(state);
+
+  return deriveTiers(createComparisonCache(state.cache), engine.finalize(state));
+}
+
+// Get current progress
+export function getProgress(state: SortingState): SortingProgress {
+  return getEngine(state.algo).progress(state);
+}
+
+// Validate that a (possibly persisted) session can be resumed
+export function validateState(state: SortingState): boolean {
+  if (!state || typeof state !== 'object') return false;
+  if (!isKnownAlgo(state.algo)) return false;
+  if (!state.cache || typeof state.cache !== 'object') return false;
+  if (state.internal && state.internal.kind !== state.algo) return false;
+  if (state.history !== undefined && !history.validateHistory(state.history)) return false;
+  if (state.scope !== undefined && !validateScope(state.scope)) return false;
+  if (state.taskIds !== undefined && !Array.isArray(state.taskIds)) return false;
+  if (state.seeded !== undefined && (!state.seeded || typeof state.seeded !== 'object')) return false;
+
+  // A session with no cursor only carries answers over to the next one
+  if (state.internal === null) return true;
+
+  return getEngine(state.algo).validate(state);
+}
+
+// Start the same kind of session over for `taskIds` but keep the cache
+// Settings default to the ones the session was started with; dependencies are seeded afresh
+export function resetWithCache(
+  state: SortingState,
+  taskIds: TaskId[],
+  options?: Omit<SessionOptions, 'cache'>
+): SortingState {
+  const cache = unseedDependencies(state.cache, state.seeded);
+  return createSession(state.algo, taskIds, { ...state.settings, ...options, cache });
+}
@@ -0,0 +1,62 @@
+// Scoped sessions: re-rank part of a list and slot the result back into the full order
+
+import type { TaskId, TaskList, SortScope } from '../types';
+import { hasTag } from '../utils/tags';
+
+// Tasks a scope covers, in their current list order
+export function resolveScope(list: TaskList, scope: SortScope): TaskId[] {
+  const order = list.taskOrder.filter(id => list.tasks[id]);
+
+  switch (scope.kind) {
+    case 'tag':
+      return order.filter(id => hasTag(list.tasks[id], scope.tag));
+    case 'range':
+      return order.slice(Math.max(0, scope.start), Math.max(0, scope.end));
+    case 'manual': {
+      const chosen = new Set(scope.taskIds);
+      return order.filter(id => chosen.has(id));
+    }
+  }
+}
+
+// Fill the positions the scoped tasks hold in `fullOrder` with their new relative order.
+// Tasks outside the scope stay in their slots; scoped tasks no longer in the list are skipped,
+// and tasks added to the list since the session started keep their place.
+export function mergeScopedOrder(fullOrder: TaskId[], scopedOrder: TaskId[]): TaskId[] {
+  const present = new Set(fullOrder);
+  const incoming = scopedOrder.filter(id => present.has(id));
+  const scoped = new Set(incoming);
+
+  let next = 0;
+  return fullOrder.map(id => (scoped.has(id) ? incoming[next++] : id));
+}
+
+// Replace the scoped tasks' tiers with the session's; other tiers lose only the scoped tasks
+export function mergeScopedTiers(
+  tiers: TaskId[][] | undefined,
+  scopedOrder: TaskId[],
+  scopedTiers: TaskId[][]
+): TaskId[][] {
+  const scoped = new Set(scopedOrder);
+  const kept = (tiers ?? [])
+    .map(tier => tier.filter(id => !scoped.has(id)))
+    .filter(tier => tier.length > 1);
+
+  return [...kept, ...scopedTiers.filter(tier => tier.length > 1)];
+}
+
+// Validate a (possibly persisted) scope
+export function validateScope(scope: SortScope): boolean {
+  if (!scope || typeof scope !== 'object') return false;
+
+  switch (scope.kind) {
+    case 'tag':
+      return typeof scope.tag === 'string';
+    case 'range':
+      return Number.isInteger(scope.start) && Number.isInteger(scope.end);
+    case 'manual':
+      return Array.isArray(scope.taskIds);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,186 @@
+// Driving a list's sorting session as immutable state
+// Engines advance their cursors in place, so every step here works on a copy of the
+// cursor and returns a new SortingState; the previous one is never touched
+
+import type { CriterionId, Task, TaskId, TaskList, CompareResult, SortAlgo, SortingState, SortScope, SortSettings } from '../types';
+import {
+  createSession,
+  requestNextPair,
+  commitComparison,
+  undoComparison,
+  redoComparison,
+  isComplete,
+  finalize,
+  finalizeTiers,
+  resetWithCache,
+} from './registry';
+import { applyComparisonPolicy, dropStaleComparisons, getRevision } from './staleness';
+import { dependencyPairs, respectDependencies, unseedDependencies } from './dependencies';
+import { resolveScope, mergeScopedOrder, mergeScopedTiers } from './scope';
+
+export interface StartOptions extends SortSettings {
+  scope?: SortScope;        // re-rank only these tasks; the whole list when omitted
+}
+
+// Tasks a session over `list` should rank right now
+function currentTaskIds(list: TaskList, sorting: Pick<SortingState, 'scope' | 'taskIds'>): TaskId[] {
+  const scope = sorting.scope;
+
+  // A range is fixed when the session starts; positions shift as tasks come and go
+  if (scope?.kind === 'range' && sorting.taskIds) {
+    return sorting.taskIds.filter(id => list.tasks[id]);
+  }
+  return scope ? resolveScope(list, scope) : list.taskOrder.filter(id => list.tasks[id]);
+}
+
+// An insertion session's base order without tasks deleted from the list, so a restart
+// never asks about a task that is gone
+function liveBaseOrder(list: TaskList, baseOrder: TaskId[] | undefined): TaskId[] | undefined {
+  return baseOrder?.filter(id => list.tasks[id]);
+}
+
+function sameTasks(a: TaskId[], b: TaskId[]): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every(id => set.has(id));
+}
+
+// Tasks whose answers the list keeps: its own, and those in its trash, which may still
+// be restored. Answers about a trashed task go when its trash entry is purged.
+export function retainedTasks(list: TaskList): Record<TaskId, Task> {
+  if (!list.trash?.length) return list.tasks;
+
+  const tasks = { ...list.tasks };
+  list.trash.forEach(entry => {
+    tasks[entry.task.id] = entry.task;
+    (entry.descendants ?? []).forEach(descendant => (tasks[descendant.id] = descendant));
+  });
+  return tasks;
+}
+
+// Start a session over the list, reusing answers that are still current
+export function startListSession(list: TaskList, algo: SortAlgo, options: StartOptions = {}): SortingState {
+  const { scope, ...settings } = options;
+  const retained = retainedTasks(list);
+
+  const previous = list.sorting
+    ? dropStaleComparisons(applyComparisonPolicy(list.sorting, retained, list.comparisonPolicy), retained)
+    : null;
+
+  const taskIds = currentTaskIds(list, { scope });
+  const sorting = createSession(algo, taskIds, {
+    ...settings,
+    baseOrder: liveBaseOrder(list, settings.baseOrder),
+    cache: previous ? unseedDependencies(previous.cache, previous.seeded) : undefined,
+    dependencies: dependencyPairs(list.tasks, taskIds),
+  });
+
+  return advanceListSession({ ...sorting, cacheMeta: previous?.cacheMeta, scope }, list);
+}
+
+// Work out the pair to show next. If tasks were added or deleted since the session
+// started, it restarts over the current tasks; every answer so far is reused, but
+// answers before the restart can no longer be undone.
+export function advanceListSession(sorting: SortingState, list: TaskList): SortingState {
+  if (!sorting.internal) return { ...sorting, pending: undefined };
+
+  let next: SortingState;
+  const taskIds = currentTaskIds(list, sorting);
+
+  if (sorting.taskIds && !sameTasks(sorting.taskIds, taskIds)) {
+    next = {
+      ...resetWithCache(sorting, taskIds, {
+        baseOrder: liveBaseOrder(list, sorting.settings?.baseOrder),
+        dependencies: dependencyPairs(list.tasks, taskIds),
+      }),
+      cacheMeta: sorting.cacheMeta,
+      scope: sorting.scope,
+      pausedAt: sorting.pausedAt,
+    };
+  } else {
+    next = { ...sorting, internal: structuredClone(sorting.internal) };
+  }
+
+  const pair = requestNextPair(next);
+  return { ...next, pending: pair ?? undefined };
+}
+
+// Answer the pending pair and move on to the next one
+export function answerListSession(sorting: SortingState, list: TaskList, result: CompareResult): SortingState {
+  const pair = sorting.pending;
+  if (!pair || !sorting.internal) return sorting;
+
+  const owned = { ...sorting, internal: structuredClone(sorting.internal) };
+  const revisions = {
+    [pair.a]: getRevision(list.tasks[pair.a]),
+    [pair.b]: getRevision(list.tasks[pair.b]),
+  };
+
+  return advanceListSession(commitComparison(owned, pair.a, pair.b, result, revisions), list);
+}
+
+export function undoListSession(sorting: SortingState, list: TaskList, steps = 1): SortingState {
+  if (!sorting.internal) return sorting;
+  return advanceListSession(undoComparison(sorting, steps), list);
+}
+
+export function redoListSession(sorting: SortingState, list: TaskList, steps = 1): SortingState {
+  if (!sorting.internal) return sorting;
+  return advanceListSession(redoComparison(sorting, steps), list);
+}
+
+// The finished order merged into the list, or null while the session still has questions
+export function listSessionResult(
+  sorting: SortingState,
+  list: TaskList
+): { taskOrder: TaskId[]; tiers: TaskId[][] } | null {
+  if (!sorting.internal || !isComplete(sorting)) return null;
+
+  const order = finalize(sorting).filter(id => list.tasks[id]);
+  const tiers = finalizeTiers(sorting)
+    .map(tier => tier.filter(id => list.tasks[id]));
+
+  return {
+    taskOrder: respectDependencies(mergeScopedOrder(list.taskOrder, order), list.tasks),
+    tiers: mergeScopedTiers(list.tiers, order, tiers),
+  };
+}
+
+// Apply `update` to every session on the list: the top level's, each subtask level's
+// (with the parent it ranks under) and each criterion's (with the criterion)
+export function updateListSessions(
+  list: TaskList,
+  update: (sorting: SortingState, parentId?: TaskId, criterionId?: CriterionId) => SortingState
+): TaskList {
+  const sorting = list.sorting && update(list.sorting);
+
+  let childSorting = list.childSorting;
+  Object.entries(list.childSorting ?? {}).forEach(([parentId, session]) => {
+    const next = session && update(session, parentId);
+    if (next !== session) childSorting = { ...childSorting, [parentId]: next };
+  });
+
+  let criterionRankings = list.criterionRankings;
+  Object.entries(list.criterionRankings ?? {}).forEach(([criterionId, ranking]) => {
+    const next = ranking.sorting && update(ranking.sorting, undefined, criterionId);
+    if (next !== ranking.sorting) criterionRankings = { ...criterionRankings, [criterionId]: { ...ranking, sorting: next } };
+  });
+
+  if (sorting === list.sorting && childSorting === list.childSorting && criterionRankings === list.criterionRankings) {
+    return list;
+  }
+  return { ...list, sorting, childSorting, criterionRankings };
+}
+
+// End the session but keep its answers for the next one
+export function closeListSession(sorting: SortingState): SortingState {
+  return {
+    algo: sorting.algo,
+    comparisonsAsked: sorting.comparisonsAsked,
+    comparisonsTotal: sorting.comparisonsTotal,
+    cache: sorting.cache,
+    cacheMeta: sorting.cacheMeta,
+    seeded: sorting.seeded,
+    internal: null,
+  };
+}
@@ -0,0 +1,154 @@
+// Ageing of cached answers: timestamps, task revisions, invalidation and expiry
+// Cached answers outlive a session (resetWithCache carries them over), so answers
+// about an edited, deleted or long-ago version of a task must not be reused blindly
+
+import type { TaskId, Task, SortingState, ComparisonMeta, ComparisonPolicy } from '../types';
+import { createCacheKey, parseCacheKey } from './cache';
+import { createHistory } from './history';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_COMPARISON_POLICY: ComparisonPolicy = { onEdit: 'invalidate' };
+
+// Current revision of a task; tasks saved before revisions existed count as 0
+export function getRevision(task: Pick<Task, 'revision'> | undefined): number {
+  return task?.revision ?? 0;
+}
+
+// Stamp an answer with the time and the revisions of both tasks
+export function recordAnswerMeta(
+  state: SortingState,
+  a: TaskId,
+  b: TaskId,
+  revisions: Partial<Record<TaskId, number>> = {},
+  now: number = Date.now()
+): SortingState {
+  const [first, second] = a < b ? [a, b] : [b, a];
+
+  return {
+    ...state,
+    cacheMeta: {
+      ...state.cacheMeta,
+      [createCacheKey(a, b)]: {
+        answeredAt: now,
+        revisions: [revisions[first] ?? 0, revisions[second] ?? 0],
+      },
+    },
+  };
+}
+
+// Seeded dependency answers still in `cache`; a dropped seed has nothing left to hand back
+function withoutDropped(seeded: SortingState['seeded'], cache: SortingState['cache']): SortingState['seeded'] {
+  if (!seeded) return seeded;
+
+  const kept: NonNullable<SortingState['seeded']> = {};
+  Object.entries(seeded).forEach(([key, original]) => {
+    if (key in cache) kept[key] = original;
+  });
+  return Object.keys(kept).length > 0 ? kept : undefined;
+}
+
+// Drop cached answers (and their meta) whose keys fail `keep`
+function filterAnswers(state: SortingState, keep: (key: string, meta?: ComparisonMeta) => boolean): SortingState {
+  const meta = state.cacheMeta ?? {};
+  const cache: SortingState['cache'] = {};
+  const cacheMeta: Record<string, ComparisonMeta> = {};
+  let removed = false;
+
+  Object.entries(state.cache).forEach(([key, result]) => {
+    if (keep(key, meta[key])) {
+      cache[key] = result;
+      if (meta[key]) cacheMeta[key] = meta[key];
+    } else {
+      removed = true;
+    }
+  });
+
+  // Meta left behind by undone answers goes too
+  if (!removed && Object.keys(meta).length === Object.keys(cacheMeta).length) return state;
+  if (!removed) return { ...state, cacheMeta };
+
+  // Every answer came from the undo base or the log, so replaying either would bring
+  // dropped answers back; undo starts again from here instead
+  const next = { ...state, cache, cacheMeta, seeded: withoutDropped(state.seeded, cache) };
+  return state.history ? { ...next, history: createHistory(next) } : next;
+}
+
+function involves(key: string, taskIds: Set<TaskId>): boolean {
+  const [a, b] = parseCacheKey(key);
+  return taskIds.has(a) || taskIds.has(b);
+}
+
+// A task's content changed: drop its answers, or keep them flagged as stale
+export function invalidateTaskComparisons(
+  state: SortingState,
+  taskId: TaskId,
+  policy: ComparisonPolicy = DEFAULT_COMPARISON_POLICY
+): SortingState {
+  const target = new Set([taskId]);
+
+  if (policy.onEdit === 'invalidate') {
+    return filterAnswers(state, key => !involves(key, target));
+  }
+
+  const cacheMeta = { ...state.cacheMeta };
+  Object.keys(state.cache).forEach(key => {
+    if (!involves(key, target)) return;
+
+    const existing: ComparisonMeta | undefined = cacheMeta[key];
+    cacheMeta[key] = existing
+      ? { ...existing, stale: true }
+      : { answeredAt: 0, revisions: [0, 0], stale: true };
+  });
+
+  return { ...state, cacheMeta };
+}
+
+// Remove every answer that mentions a deleted task
+export function pruneDeletedTasks(state: SortingState, deletedIds: TaskId[]): SortingState {
+  const deleted = new Set(deletedIds);
+  return filterAnswers(state, key => !involves(key, deleted));
+}
+
+// Remove answers older than `maxAgeDays`; answers with no timestamp are kept
+export function expireComparisons(state: SortingState, maxAgeDays: number, now: number = Date.now()): SortingState {
+  const cutoff = now - maxAgeDays * DAY_MS;
+  return filterAnswers(state, (_, meta) => !meta || meta.answeredAt >= cutoff);
+}
+
+// Apply a list's policy: expire old answers and drop ones about tasks that no longer exist
+export function applyComparisonPolicy(
+  state: SortingState,
+  tasks: Record<TaskId, Task>,
+  policy: ComparisonPolicy = DEFAULT_COMPARISON_POLICY,
+  now: number = Date.now()
+): SortingState {
+  const existing = filterAnswers(state, key => {
+    const [a, b] = parseCacheKey(key);
+    return a in tasks && b in tasks;
+  });
+
+  return policy.maxAgeDays === undefined ? existing : expireComparisons(existing, policy.maxAgeDays, now);
+}
+
+// Answers that are flagged, or were given about an older revision of either task
+export function findStaleComparisons(state: SortingState, tasks: Record<TaskId, Task>): string[] {
+  const meta = state.cacheMeta ?? {};
+
+  return Object.keys(state.cache).filter(key => {
+    const entry = meta[key];
+    if (!entry) return false;
+    if (entry.stale) return true;
+
+    const [a, b] = parseCacheKey(key);
+    return entry.revisions[0] !== getRevision(tasks[a]) || entry.revisions[1] !== getRevision(tasks[b]);
+  });
+}
+
+// Drop stale answers so the next session asks those pairs again
+export function dropStaleComparisons(state: SortingState, tasks: Record<TaskId, Task>): SortingState {
+  const stale = new Set(findStaleComparisons(state, tasks));
+  if (stale.size === 0) return state;
+
+  return filterAnswers(state, key => !stale.has(key));
+}
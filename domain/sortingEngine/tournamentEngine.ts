@@ -0,0 +1,189 @@
+// Knockout-tournament engine for ranking only the top K tasks
+// n - 1 comparisons to find the winner, then ~log2(n) per extra place
+
+import type { TaskId, CompareResult, SortingState, TournamentState } from '../types';
+import type { ComparisonPair, ComparisonCache, SortingProgress, SortEngine } from './types';
+import { createComparisonCache } from './cache';
+
+const DEFAULT_TOP_K = 5;
+
+// Comparison budget: a full bracket, then one replayed path per extra place
+function estimateComparisons(n: number, k: number): number {
+  if (n <= 1 || k <= 0) return 0;
+  return n - 1 + (Math.min(k, n) - 1) * Math.ceil(Math.log2(n));
+}
+
+// Create a new top-K session; tasks outside the top K stay unranked in input order
+export function createSession(
+  taskIds: TaskId[],
+  k: number = DEFAULT_TOP_K,
+  existingCache?: Record<string, CompareResult>
+): SortingState {
+  const cache = createComparisonCache(existingCache);
+
+  // Pad the bracket to a power of two so every slot has a fixed opponent path
+  let size = 1;
+  while (size < taskIds.length) size *= 2;
+  const leaves: (TaskId | null)[] = [...taskIds];
+  while (leaves.length < size) leaves.push(null);
+
+  const topK = Math.max(1, Math.floor(k));
+
+  return {
+    algo: 'tournament',
+    comparisonsAsked: 0,
+    comparisonsTotal: estimateComparisons(taskIds.length, topK),
+    cache: cache.toRecord(),
+    internal: {
+      kind: 'tournament',
+      k: topK,
+      leaves,
+      ranked: [],
+    },
+  };
+}
+
+type BracketOutcome =
+  | { winner: TaskId | null; pair?: undefined }
+  | { winner?: undefined; pair: ComparisonPair };
+
+// Replay the bracket from cached answers; returns the champion or the first open match
+function playBracket(leaves: (TaskId | null)[], cache: ComparisonCache): BracketOutcome {
+  // `undefined` marks a match that is still waiting on an answer below it
+  let level: (TaskId | null | undefined)[] = leaves;
+
+  while (level.length > 1) {
+    const next: (TaskId | null | undefined)[] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      const left = level[i];
+      const right = level[i + 1];
+
+      if (left === undefined || right === undefined) {
+        next.push(undefined);
+      } else if (left === null || right === null) {
+        next.push(left ?? right);
+      } else if (cache.has(left, right)) {
+        // Left takes ties, matching the merge engine
+        next.push(cache.get(left, right) === -1 ? right : left);
+      } else {
+        return { pair: { a: left, b: right } };
+      }
+    }
+
+    level = next;
+  }
+
+  return { winner: level[0] ?? null };
+}
+
+function remainingCount(internal: TournamentState): number {
+  return internal.leaves.filter(id => id !== null).length;
+}
+
+function targetCount(internal: TournamentState): number {
+  return Math.min(internal.k, internal.ranked.length + remainingCount(internal));
+}
+
+// Get the next pair to compare, or null once the top K are known
+export function requestNextPair(state: SortingState): ComparisonPair | null {
+  if (!state.internal) return null;
+
+  const internal = state.internal as TournamentState;
+  const cache = createComparisonCache(state.cache);
+
+  while (internal.ranked.length < targetCount(internal)) {
+    const outcome = playBracket(internal.leaves, cache);
+    if (outcome.pair) return outcome.pair;
+    if (outcome.winner === null) break;
+
+    // Champion found: rank it and vacate its slot so the next round replays its path
+    internal.ranked.push(outcome.winner);
+    internal.leaves[internal.leaves.indexOf(outcome.winner)] = null;
+  }
+
+  return null;
+}
+
+// Commit a comparison result; the bracket is replayed from the cache on the next request
+export function commitComparison(
+  state: SortingState,
+  a: TaskId,
+  b: TaskId,
+  result: CompareResult
+): SortingState {
+  const cache = createComparisonCache(state.cache);
+
+  // Cache the result
+  cache.set(a, b, result);
+
+  return {
+    ...state,
+    comparisonsAsked: state.comparisonsAsked + 1,
+    cache: cache.toRecord(),
+  };
+}
+
+// Check if the top K have been found
+export function isComplete(state: SortingState): boolean {
+  if (!state.internal) return true;
+
+  const internal = state.internal as TournamentState;
+  return internal.ranked.length >= targetCount(internal);
+}
+
+// Split the session into its ordered top K and the unranked remainder
+export function splitRanked(state: SortingState): { ranked: TaskId[]; unranked: TaskId[] } {
+  if (!state.internal) return { ranked: [], unranked: [] };
+
+  const internal = state.internal as TournamentState;
+  return {
+    ranked: internal.ranked,
+    unranked: internal.leaves.filter((id): id is TaskId => id !== null),
+  };
+}
+
+// Get the top K in order followed by the unranked tasks in their original order
+export function finalize(state: SortingState): TaskId[] {
+  const { ranked, unranked } = splitRanked(state);
+  return [...ranked, ...unranked];
+}
+
+// Get current progress against the K-based budget
+export function getProgress(state: SortingState): SortingProgress {
+  const current = state.comparisonsAsked;
+  const total = state.comparisonsTotal;
+  const percentage = total > 0 ? Math.round((current / total) * 100) : 0;
+
+  return {
+    current,
+    total,
+    percentage: isComplete(state) ? 100 : Math.min(100, percentage),
+  };
+}
+
+// Validate that a tournament state is well-formed
+export function validateState(state: SortingState): boolean {
+  if (!state || typeof state !== 'object') return false;
+  if (state.algo !== 'tournament' || !state.internal) return false;
+
+  const internal = state.internal as TournamentState;
+  return (
+    internal.kind === 'tournament' &&
+    Number.isInteger(internal.k) &&
+    internal.k > 0 &&
+    Array.isArray(internal.leaves) &&
+    Array.isArray(internal.ranked)
+  );
+}
+
+export const tournamentEngine: SortEngine = {
+  algo: 'tournament',
+  create: (taskIds, options) => createSession(taskIds, options?.topK, options?.cache),
+  next: requestNextPair,
+  commit: commitComparison,
+  isComplete,
+  finalize,
+  progress: getProgress,
+  validate: validateState,
+};
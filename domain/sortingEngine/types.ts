@@ -1,6 +1,6 @@
 // Types specific to the sorting engine
 
-import type { TaskId, CompareResult } from '../types';
+import type { TaskId, CompareResult, SortAlgo, SortingState, SortSettings, ComparisonLogEntry } from '../types';
 
 export interface ComparisonPair {
   a: TaskId;
@@ -11,13 +11,67 @@ export interface SortingProgress {
   current: number;        // current comparison index
   total: number;          // estimated total comparisons
   percentage: number;     // 0-100
+  remaining?: RemainingComparisons; // live bounds, for engines that can work them out
+}
+
+// Questions still to come, e.g. "between 4 and 9 more questions"
+export interface RemainingComparisons {
+  min: number;            // best case
+  max: number;            // worst case
+  expected: number;       // average case, discounted for answers already cached
+}
+
+// Fitted strength of a task with a 95% confidence interval (log scale, mean zero)
+export interface TaskScore {
+  score: number;
+  stdError: number;
+  lower: number;
+  upper: number;
 }
 
 export interface ComparisonCache {
-  get(a: TaskId, b: TaskId): CompareResult | undefined;
+  get(a: TaskId, b: TaskId): CompareResult | undefined;  // direct or inferred
   set(a: TaskId, b: TaskId, result: CompareResult): void;
-  has(a: TaskId, b: TaskId): boolean;
+  has(a: TaskId, b: TaskId): boolean;                    // direct or inferred
+  hasDirect(a: TaskId, b: TaskId): boolean;              // answered, not inferred
   clear(): void;
   toRecord(): Record<string, CompareResult>;
   fromRecord(record: Record<string, CompareResult>): void;
 }
+
+// Transitive closure inferred an ordering that the cache contradicts
+export interface TransitiveConflict {
+  a: TaskId;
+  b: TaskId;
+  cached: CompareResult;
+  inferred: CompareResult;
+}
+
+// A set of judgements that cannot all be true at once (e.g. A>B, B>C, C>A)
+export interface Inconsistency {
+  tasks: TaskId[];                 // tasks around the cycle, each ranked at or above the next
+  judgements: ComparisonLogEntry[]; // the smallest set of answers behind the cycle
+}
+
+export interface ConsistencyReport {
+  consistent: boolean;
+  inconsistencies: Inconsistency[];
+}
+
+export interface SessionOptions extends SortSettings {
+  cache?: Record<string, CompareResult>;  // answers carried over from earlier sessions
+  dependencies?: [TaskId, TaskId][];      // [blocker, blocked] pairs, treated as known answers
+}
+
+// Contract every sorting strategy implements so callers can drive any of them
+export interface SortEngine {
+  algo: SortAlgo;
+  create(taskIds: TaskId[], options?: SessionOptions): SortingState;
+  next(state: SortingState): ComparisonPair | null;
+  commit(state: SortingState, a: TaskId, b: TaskId, result: CompareResult): SortingState;
+  isComplete(state: SortingState): boolean;
+  finalize(state: SortingState): TaskId[];
+  tiers?(state: SortingState): TaskId[][]; // defaults to grouping finalize() by cached ties
+  progress(state: SortingState): SortingProgress;
+  validate(state: SortingState): boolean;
+}
@@ -0,0 +1,236 @@
+// Undo/redo middleware for the Zustand store
+// Each action call becomes one history entry holding the before/after values of the
+// state it changed. State is immutable, so these are references, not copies.
+
+import type { StateCreator } from 'zustand';
+
+// One changed value: a whole tracked key, or one entry of a tracked record (e.g. one list)
+export interface HistoryPatch {
+  key: string;
+  id?: string;
+  before: unknown;          // undefined when the entry did not exist
+  after: unknown;           // undefined when the entry was removed
+}
+
+export interface HistoryEntry {
+  label: string;            // action name, or the group label
+  patches: HistoryPatch[];
+  at: number;               // epoch ms of the last change in the entry
+}
+
+export interface HistoryControls {
+  history: {
+    past: HistoryEntry[];   // oldest first
+    future: HistoryEntry[]; // next to redo last
+  };
+  undo: () => void;
+  redo: () => void;
+  // Record everything `fn` does as one entry
+  group: (label: string, fn: () => void) => void;
+  clearHistory: () => void;
+}
+
+// State keys and action names of T
+type Key<T> = keyof T & string;
+
+export interface HistoryOptions<T> {
+  track: Key<T>[];                    // state keys to record; everything else is transient
+  limit?: number;                     // entries kept for undo
+  ignore?: Key<T>[];                  // actions never recorded
+  clearOn?: Key<T>[];                 // actions that replace the state wholesale and reset history
+  forgetOn?: Key<T>[];                // actions that bring in values from elsewhere (e.g. another
+                                      // tab); entries touching what they changed are dropped
+  coalesce?: Partial<Record<Key<T>, string>>; // action -> group; consecutive calls in one group on
+                                              // the same targets share an entry (e.g. answering pairs)
+}
+
+const DEFAULT_LIMIT = 100;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Tracked values that differ between two states
+function diff<S>(before: S, after: S, track: Key<S>[]): HistoryPatch[] {
+  const patches: HistoryPatch[] = [];
+
+  track.forEach(key => {
+    const from: unknown = before[key];
+    const to: unknown = after[key];
+    if (from === to) return;
+
+    if (isRecord(from) && isRecord(to)) {
+      new Set([...Object.keys(from), ...Object.keys(to)]).forEach(id => {
+        if (from[id] !== to[id]) patches.push({ key, id, before: from[id], after: to[id] });
+      });
+    } else {
+      patches.push({ key, before: from, after: to });
+    }
+  });
+
+  return patches;
+}
+
+// State update that puts each patched value back to its `side`
+function applyPatches<S>(state: S, patches: HistoryPatch[], side: 'before' | 'after', track: Key<S>[]): Partial<S> {
+  const update: Partial<S> = {};
+  const ordered = side === 'before' ? [...patches].reverse() : patches;
+
+  ordered.forEach(patch => {
+    const key = track.find(tracked => tracked === patch.key);
+    if (key === undefined) return;
+
+    // A patch only ever holds values read from its own key, so they fit back into it
+    const value = patch[side] as S[typeof key];
+    if (patch.id === undefined) {
+      update[key] = value;
+      return;
+    }
+
+    const current: unknown = update[key] ?? state[key];
+    const record: Record<string, unknown> = isRecord(current) ? { ...current } : {};
+    if (value === undefined) delete record[patch.id];
+    else record[patch.id] = value;
+    update[key] = record as S[typeof key];
+  });
+
+  return update;
+}
+
+function targetOf(patch: HistoryPatch): string {
+  return `${patch.key}:${patch.id ?? ''}`;
+}
+
+function targetsOf(entry: HistoryEntry): string {
+  return entry.patches.map(targetOf).sort().join(',');
+}
+
+// Fold `next` into `last` when both change the same values
+function mergeEntries(last: HistoryEntry, next: HistoryEntry): HistoryEntry {
+  const latest = new Map(next.patches.map(patch => [targetOf(patch), patch.after]));
+
+  return {
+    ...last,
+    patches: last.patches.map(patch => ({ ...patch, after: latest.get(targetOf(patch)) })),
+    at: next.at,
+  };
+}
+
+// `config` sees the whole store, history controls included, and returns the rest of it
+export function withHistory<T extends object>(
+  config: StateCreator<T & HistoryControls, [], [], T>,
+  options: HistoryOptions<T>
+): StateCreator<T & HistoryControls, [], []> {
+  type Store = T & HistoryControls;
+
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const track: Key<Store>[] = options.track;
+  const ignore = new Set<string>([...(options.ignore ?? []), ...(options.clearOn ?? []), ...(options.forgetOn ?? [])]);
+  const clearOn = new Set<string>(options.clearOn ?? []);
+  const forgetOn = new Set<string>(options.forgetOn ?? []);
+  const coalesce = new Map<string, string | undefined>(Object.entries(options.coalesce ?? {}));
+
+  return (set, get, api) => {
+    const setHistory = (history: HistoryControls['history']) => set(state => ({ ...state, history }));
+
+    // Nested calls (an action calling another, or actions inside group()) join the outermost
+    let depth = 0;
+
+    const record = (label: string, before: Store) => {
+      const patches = diff(before, get(), track);
+      if (patches.length === 0) return;
+
+      const { past } = get().history;
+      const entry: HistoryEntry = { label, patches, at: Date.now() };
+      const last = past[past.length - 1];
+
+      const group = coalesce.get(label);
+      const joins =
+        group !== undefined &&
+        last !== undefined &&
+        coalesce.get(last.label) === group &&
+        targetsOf(last) === targetsOf(entry);
+
+      const nextPast = joins
+        ? [...past.slice(0, -1), mergeEntries(last, entry)]
+        : [...past, entry].slice(-limit);
+
+      setHistory({ past: nextPast, future: [] });
+    };
+
+    // Undoing past a value replaced from elsewhere would silently revert that change
+    const forget = (before: Store) => {
+      const targets = new Set(diff(before, get(), track).map(targetOf));
+      if (targets.size === 0) return;
+
+      const { past, future } = get().history;
+      const keep = (entry: HistoryEntry) => !entry.patches.some(patch => targets.has(targetOf(patch)));
+      setHistory({ past: past.filter(keep), future: future.filter(keep) });
+    };
+
+    const run = <R>(label: string, fn: () => R): R => {
+      if (depth > 0) return fn();
+
+      const before = get();
+      depth++;
+      try {
+        return fn();
+      } finally {
+        depth--;
+        if (clearOn.has(label)) {
+          setHistory({ past: [], future: [] });
+        } else if (forgetOn.has(label)) {
+          forget(before);
+        } else if (!ignore.has(label)) {
+          record(label, before);
+        }
+      }
+    };
+
+    const state = config(set, get, api);
+
+    // Wrap every action so its changes are recorded under its name
+    const actions: Record<string, unknown> = {};
+    Object.entries(state).forEach(([name, value]) => {
+      if (typeof value !== 'function') return;
+      actions[name] = (...args: unknown[]) => run(name, () => value(...args));
+    });
+
+    return {
+      ...state,
+      ...actions,
+
+      history: { past: [], future: [] },
+
+      undo: () => {
+        if (depth > 0) return;
+        const { past, future } = get().history;
+        const entry = past[past.length - 1];
+        if (!entry) return;
+
+        set({
+          ...applyPatches(get(), entry.patches, 'before', track),
+          history: { past: past.slice(0, -1), future: [...future, entry] },
+        });
+      },
+
+      redo: () => {
+        if (depth > 0) return;
+        const { past, future } = get().history;
+        const entry = future[future.length - 1];
+        if (!entry) return;
+
+        set({
+          ...applyPatches(get(), entry.patches, 'after', track),
+          history: { past: [...past, entry], future: future.slice(0, -1) },
+        });
+      },
+
+      group: (label: string, fn: () => void) => run(label, fn),
+
+      clearHistory: () => {
+        setHistory({ past: [], future: [] });
+      },
+    };
+  };
+}
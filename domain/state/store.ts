@@ -1,42 +1,293 @@
 // Zustand store for global app state
 
 import { create } from 'zustand';
-import type { AppState, TaskList, Task, ListId, TaskId } from '../types';
-import { generateListId, generateTaskId } from '../utils/uuid';
+import { withHistory, type HistoryControls } from './history';
+import type {
+  AppState,
+  TaskList,
+  Task,
+  ListId,
+  ListSummary,
+  ListConflict,
+  MigrationReport,
+  TaskId,
+  Criterion,
+  CriterionId,
+  CriterionRanking,
+  ParticipantId,
+  ParticipantSet,
+  CompareResult,
+  SortAlgo,
+  SortingState,
+} from '../types';
+import { generateCriterionId, generateListId, generateParticipantId, generateTaskId } from '../utils/uuid';
+import {
+  aggregateCriteria,
+  aggregateParticipants,
+  criterionPositions,
+  type GroupMethod,
+} from '../sortingEngine/aggregate';
+import {
+  applyComparisonPolicy,
+  getRevision,
+  invalidateTaskComparisons,
+} from '../sortingEngine/staleness';
+import { mergeScopedOrder, mergeScopedTiers } from '../sortingEngine/scope';
+import {
+  buildTaskTree,
+  levelOrder,
+  levelView,
+  moveTaskTo,
+  rollUpCompletion,
+  setSubtreeDone,
+  withLevel,
+} from '../utils/hierarchy';
+import {
+  buildTagIndex,
+  deleteTagInLists,
+  hasTag,
+  matchesTaskFilter,
+  mergeTagsInLists,
+  normaliseTag,
+  normaliseTags,
+  renameTagInLists,
+  type TaskFilter,
+} from '../utils/tags';
+import { addParsedTasks, type BulkAddOptions, type ParsedTask } from '../utils/bulkAdd';
+import { mergeImportedList } from '../utils/exportImport';
+import { buildIndex } from '../storage/listIndex';
+import { mergeMigrationReports } from '../storage/migrations';
+import {
+  isListVisible,
+  purgeExpiredSummaries,
+  purgeExpiredTrash,
+  purgeTrash,
+  restoreTrashedTask,
+  trashTask,
+} from '../utils/trash';
+import {
+  startListSession,
+  advanceListSession,
+  answerListSession,
+  undoListSession,
+  redoListSession,
+  listSessionResult,
+  closeListSession,
+  retainedTasks,
+  updateListSessions,
+  type StartOptions,
+} from '../sortingEngine/session';
+import { canRedoComparison, canUndoComparison, getProgress, isComplete } from '../sortingEngine/registry';
+import {
+  findDependencyCycle,
+  holdDependency,
+  isBlocked,
+  releaseDependency,
+  respectDependencies,
+} from '../sortingEngine/dependencies';
 
 interface StoreActions {
   // List operations
+  // Trashing, restoring and archiving need the list loaded (see loadLists in
+  // usePersistentStore) and return false otherwise; purging works either way
   createList: (name: string) => ListId;
   updateList: (listId: ListId, updates: Partial<TaskList>) => void;
-  deleteList: (listId: ListId) => void;
+  deleteList: (listId: ListId) => boolean;
+  restoreList: (listId: ListId) => boolean;
+  purgeList: (listId: ListId) => void;
+  archiveList: (listId: ListId) => boolean;
+  unarchiveList: (listId: ListId) => boolean;
   setActiveList: (listId: ListId | null) => void;
 
   // Task operations
-  createTask: (listId: ListId, title: string, note?: string) => TaskId;
+  createTask: (listId: ListId, title: string, note?: string, tags?: string[]) => TaskId;
   updateTask: (listId: ListId, taskId: TaskId, updates: Partial<Task>) => void;
   deleteTask: (listId: ListId, taskId: TaskId) => void;
   toggleTaskDone: (listId: ListId, taskId: TaskId) => void;
+  // Add tasks parsed from pasted text; returns the new IDs, parents before children
+  bulkAddTasks: (listId: ListId, tasks: ParsedTask[], options?: BulkAddOptions) => TaskId[];
+
+  // Tag operations; renames, merges and deletes apply to every list, so they need every
+  // list loaded (see loadAllLists in usePersistentStore) and return false otherwise
+  addTaskTag: (listId: ListId, taskId: TaskId, tag: string) => void;
+  removeTaskTag: (listId: ListId, taskId: TaskId, tag: string) => void;
+  renameTag: (from: string, to: string) => boolean;
+  mergeTags: (sources: string[], target: string) => boolean;
+  deleteTag: (tag: string) => boolean;
+
+  // Hierarchy operations
+  createSubtask: (listId: ListId, parentId: TaskId, title: string, note?: string, tags?: string[]) => TaskId;
+  moveTask: (listId: ListId, taskId: TaskId, parentId: TaskId | null) => void;
+  reorderChildren: (listId: ListId, parentId: TaskId, childOrder: TaskId[]) => void;
+
+  // Trash operations
+  restoreTask: (listId: ListId, taskId: TaskId) => void;
+  purgeTask: (listId: ListId, taskId: TaskId) => void;
+  emptyTrash: (listId: ListId) => void;
+  // Loaded lists lose expired trash now; lists not loaded yet when they are loaded
+  purgeExpiredTrash: (retentionDays?: number) => void;
 
   // Task order operations
   reorderTasks: (listId: ListId, taskOrder: TaskId[]) => void;
+  applyScopedOrder: (listId: ListId, scopedOrder: TaskId[], scopedTiers?: TaskId[][]) => void;
+
+  // Sorting session operations
+  // `parentId` picks the session ranking that parent's subtasks; the top level by default
+  startSorting: (listId: ListId, algo?: SortAlgo, options?: StartOptions, parentId?: TaskId) => void;
+  answer: (listId: ListId, result: CompareResult, parentId?: TaskId) => void;
+  undoAnswer: (listId: ListId, parentId?: TaskId) => void;
+  redoAnswer: (listId: ListId, parentId?: TaskId) => void;
+  pause: (listId: ListId, parentId?: TaskId) => void;
+  resume: (listId: ListId, parentId?: TaskId) => void;
+  abandon: (listId: ListId, parentId?: TaskId) => void;
+  applyResult: (listId: ListId, parentId?: TaskId) => void;
+
+  // Dependency operations
+  addDependency: (listId: ListId, taskId: TaskId, blockerId: TaskId) => boolean;
+  removeDependency: (listId: ListId, taskId: TaskId, blockerId: TaskId) => void;
+
+  // Comparison cache upkeep: prune deleted tasks and expire old answers per the list's policy
+  applyComparisonPolicy: (listId: ListId) => void;
+
+  // Criteria operations
+  addCriterion: (listId: ListId, name: string, weight?: number, inverted?: boolean) => CriterionId;
+  updateCriterion: (listId: ListId, criterionId: CriterionId, updates: Partial<Omit<Criterion, 'id'>>) => void;
+  removeCriterion: (listId: ListId, criterionId: CriterionId) => void;
+  setCriterionRanking: (listId: ListId, criterionId: CriterionId, updates: Partial<CriterionRanking>) => void;
+  applyCriteriaWeights: (listId: ListId) => void;
+  // Each criterion has its own session over the top-level tasks, ranking them by that criterion
+  startCriterionSorting: (listId: ListId, criterionId: CriterionId, algo?: SortAlgo, options?: StartOptions) => void;
+  answerCriterion: (listId: ListId, criterionId: CriterionId, result: CompareResult) => void;
+  undoCriterionAnswer: (listId: ListId, criterionId: CriterionId) => void;
+  redoCriterionAnswer: (listId: ListId, criterionId: CriterionId) => void;
+  applyCriterionResult: (listId: ListId, criterionId: CriterionId) => void;
+
+  // Group ranking operations
+  addParticipant: (listId: ListId, name: string) => ParticipantId;
+  importParticipant: (listId: ListId, participant: ParticipantSet) => void;
+  removeParticipant: (listId: ListId, participantId: ParticipantId) => void;
+  applyGroupRanking: (listId: ListId, method?: GroupMethod) => void;
 
   // Hydration
   hydrate: (state: Partial<AppState>) => void;
   setHydrated: (hydrated: boolean) => void;
+  // Swap an unloaded list's summary for the list read from storage (null if it was missing)
+  loadList: (listId: ListId, list: TaskList | null) => void;
+  // Add lists migrated or quarantined while loading to the report shown to the user
+  reportMigration: (report: MigrationReport) => void;
+  dismissMigrationReport: () => void;
+  // Take back a list recovered from the quarantine. Not undoable: the quarantine entry
+  // is already gone, so undoing would lose the list.
+  recoverList: (list: TaskList) => void;
+
+  // Backups; restoring the whole app replaces every list, loaded or not
+  restoreAppBackup: (lists: TaskList[], activeListId: ListId | null) => void;
+  // False if the list is not loaded; load it first
+  restoreListBackup: (list: TaskList) => boolean;
+
+  // Import; merging adds new lists and folds the rest into the lists they match
+  importLists: (lists: TaskList[]) => void;
+  replaceAllLists: (lists: TaskList[], activeListId: ListId | null) => void;
+
+  // Cross-tab sync; changes saved by other tabs are not recorded for undo
+  applyRemoteList: (listId: ListId, list: TaskList | null) => void;
+  applyRemoteSummary: (listId: ListId, summary: ListSummary | null) => void;
+  reportConflict: (conflict: ListConflict) => void;
+  // 'both' keeps the other tab's version and this tab's as a copy
+  resolveConflict: (listId: ListId, keep: 'local' | 'remote' | 'both') => void;
 
   // Reset
   reset: () => void;
 }
 
-type Store = AppState & StoreActions;
+type Store = AppState & StoreActions & HistoryControls;
 
 const initialState: AppState = {
   lists: {},
   activeListId: null,
   hydrated: false,
+  unloadedLists: {},
+  conflicts: {},
+  migrationReport: null,
 };
 
-export const useStore = create<Store>((set, get) => ({
+// Actions that touch every list refuse to run on part of them
+function allListsLoaded(state: AppState): boolean {
+  return Object.keys(state.unloadedLists ?? {}).length === 0;
+}
+
+// Keep a level's running session in step with tasks added to or deleted from it
+function syncSorting(list: TaskList, parentId?: TaskId): TaskList {
+  const level = levelView(list, parentId);
+  if (!level.sorting?.internal) return list;
+
+  return withLevel(list, parentId, { ...level, sorting: advanceListSession(level.sorting, level) });
+}
+
+// Apply `fn` to the session of one level (the top level when `parentId` is undefined);
+// null from `fn` leaves the state alone
+function updateSession(
+  state: AppState,
+  listId: ListId,
+  parentId: TaskId | undefined,
+  fn: (sorting: SortingState, level: TaskList) => SortingState | null
+): Partial<AppState> {
+  const list = state.lists[listId];
+  if (!list) return state;
+
+  const level = levelView(list, parentId);
+  const sorting = level.sorting ? fn(level.sorting, level) : null;
+  if (!sorting) return state;
+
+  return {
+    lists: {
+      ...state.lists,
+      [listId]: { ...withLevel(list, parentId, { ...level, sorting }), updatedAt: Date.now() },
+    },
+  };
+}
+
+// The list as a criterion's session sees it: the top-level tasks with that criterion's
+// session. Dependencies are left out, so they are neither seeded as answers nor enforced
+// on the result: a blocker is not more effort or more impact, and only the combined
+// order has to respect them.
+function criterionView(list: TaskList, criterionId: CriterionId): TaskList | null {
+  if (!list.criteria?.some(c => c.id === criterionId)) return null;
+
+  const tasks: TaskList['tasks'] = {};
+  Object.values(list.tasks).forEach(task => {
+    tasks[task.id] = task.blockedBy ? { ...task, blockedBy: undefined } : task;
+  });
+  return { ...list, tasks, sorting: list.criterionRankings?.[criterionId]?.sorting ?? null, tiers: undefined };
+}
+
+// Replace one criterion's ranking with `fn`'s; null from `fn` leaves the state alone
+function updateCriterionRanking(
+  state: AppState,
+  listId: ListId,
+  criterionId: CriterionId,
+  fn: (ranking: CriterionRanking, view: TaskList) => CriterionRanking | null
+): Partial<AppState> {
+  const list = state.lists[listId];
+  const view = list && criterionView(list, criterionId);
+  if (!view) return state;
+
+  const ranking = fn(list.criterionRankings?.[criterionId] ?? { taskOrder: [], sorting: null }, view);
+  if (!ranking) return state;
+
+  return {
+    lists: {
+      ...state.lists,
+      [listId]: {
+        ...list,
+        criterionRankings: { ...list.criterionRankings, [criterionId]: ranking },
+        updatedAt: Date.now(),
+      },
+    },
+  };
+}
+
+export const useStore = create<Store>()(withHistory<AppState & StoreActions>((set, get) => ({
   ...initialState,
 
   // List operations
@@ -52,7 +303,7 @@ export const useStore = create<Store>((set, get) => ({
       sorting: null,
       createdAt: now,
       updatedAt: now,
-      version: 1,
+      version: 2,
     };
 
     set(state => ({
@@ -81,14 +332,92 @@ export const useStore = create<Store>((set, get) => ({
     });
   },
 
+  // Moves the list to the trash; purgeList removes it for good
   deleteList: (listId: ListId) => {
+    if (!get().lists[listId]) return false;
+
+    set(state => {
+      const list = state.lists[listId];
+      if (!list || list.deletedAt !== undefined) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: { ...list, deletedAt: Date.now() },
+        },
+        activeListId: state.activeListId === listId ? null : state.activeListId,
+      };
+    });
+    return true;
+  },
+
+  restoreList: (listId: ListId) => {
+    if (!get().lists[listId]) return false;
+
+    set(state => {
+      const list = state.lists[listId];
+      if (list?.deletedAt === undefined) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: { ...list, deletedAt: undefined },
+        },
+      };
+    });
+    return true;
+  },
+
+  // An unloaded list only needs its summary dropped; the next save deletes its record
+  purgeList: (listId: ListId) => {
+    set(state => {
+      const lists = { ...state.lists };
+      delete lists[listId];
+      const unloadedLists = { ...state.unloadedLists };
+      delete unloadedLists[listId];
+
+      return {
+        lists,
+        unloadedLists,
+        activeListId: state.activeListId === listId ? null : state.activeListId,
+      };
+    });
+  },
+
+  // Archived lists leave the switcher but stay searchable and exportable
+  archiveList: (listId: ListId) => {
+    if (!get().lists[listId]) return false;
+
     set(state => {
-      const { [listId]: deleted, ...remaining } = state.lists;
+      const list = state.lists[listId];
+      if (!list || list.archivedAt !== undefined) return state;
+
       return {
-        lists: remaining,
+        lists: {
+          ...state.lists,
+          [listId]: { ...list, archivedAt: Date.now() },
+        },
         activeListId: state.activeListId === listId ? null : state.activeListId,
       };
     });
+    return true;
+  },
+
+  unarchiveList: (listId: ListId) => {
+    if (!get().lists[listId]) return false;
+
+    set(state => {
+      const list = state.lists[listId];
+      if (list?.archivedAt === undefined) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: { ...list, archivedAt: undefined },
+        },
+      };
+    });
+    return true;
   },
 
   setActiveList: (listId: ListId | null) => {
@@ -96,14 +425,16 @@ export const useStore = create<Store>((set, get) => ({
   },
 
   // Task operations
-  createTask: (listId: ListId, title: string, note?: string) => {
+  createTask: (listId: ListId, title: string, note?: string, tags?: string[]) => {
     const taskId = generateTaskId();
     const now = Date.now();
+    const taskTags = normaliseTags(tags ?? []);
 
     const newTask: Task = {
       id: taskId,
       title,
       note,
+      tags: taskTags.length > 0 ? taskTags : undefined,
       done: false,
       createdAt: now,
       updatedAt: now,
@@ -113,18 +444,20 @@ export const useStore = create<Store>((set, get) => ({
       const list = state.lists[listId];
       if (!list) return state;
 
+      const updated: TaskList = {
+        ...list,
+        tasks: {
+          ...list.tasks,
+          [taskId]: newTask,
+        },
+        taskOrder: [...list.taskOrder, taskId],
+        updatedAt: now,
+      };
+
       return {
         lists: {
           ...state.lists,
-          [listId]: {
-            ...list,
-            tasks: {
-              ...list.tasks,
-              [taskId]: newTask,
-            },
-            taskOrder: [...list.taskOrder, taskId],
-            updatedAt: now,
-          },
+          [listId]: syncSorting(updated),
         },
       };
     });
@@ -137,19 +470,66 @@ export const useStore = create<Store>((set, get) => ({
       const list = state.lists[listId];
       if (!list || !list.tasks[taskId]) return state;
 
+      const task = list.tasks[taskId];
+
+      // Answers about the old wording no longer apply to the new one
+      const contentChanged =
+        (updates.title !== undefined && updates.title !== task.title) ||
+        ('note' in updates && updates.note !== task.note);
+
+      const updated: TaskList = {
+        ...list,
+        tasks: {
+          ...list.tasks,
+          [taskId]: {
+            ...task,
+            ...updates,
+            revision: contentChanged ? getRevision(task) + 1 : task.revision,
+            updatedAt: Date.now(),
+          },
+        },
+        updatedAt: Date.now(),
+      };
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: contentChanged
+            ? updateListSessions(updated, sorting => invalidateTaskComparisons(sorting, taskId, list.comparisonPolicy))
+            : updated,
+        },
+      };
+    });
+  },
+
+  deleteTask: (listId: ListId, taskId: TaskId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list) return state;
+
+      const updated: TaskList = { ...trashTask(list, taskId), updatedAt: Date.now() };
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: syncSorting(updated, list.tasks[taskId]?.parentId),
+        },
+      };
+    });
+  },
+
+  toggleTaskDone: (listId: ListId, taskId: TaskId) => {
+    set(state => {
+      const list = state.lists[listId];
+      const task = list?.tasks[taskId];
+      if (!list || !task) return state;
+
+      // Subtasks follow their parent, and parents follow their subtasks
       return {
         lists: {
           ...state.lists,
           [listId]: {
-            ...list,
-            tasks: {
-              ...list.tasks,
-              [taskId]: {
-                ...list.tasks[taskId],
-                ...updates,
-                updatedAt: Date.now(),
-              },
-            },
+            ...setSubtreeDone(list, taskId, !task.done),
             updatedAt: Date.now(),
           },
         },
@@ -157,21 +537,48 @@ export const useStore = create<Store>((set, get) => ({
     });
   },
 
-  deleteTask: (listId: ListId, taskId: TaskId) => {
+  bulkAddTasks: (listId: ListId, tasks: ParsedTask[], options?: BulkAddOptions) => {
+    let taskIds: TaskId[] = [];
+
     set(state => {
       const list = state.lists[listId];
       if (!list) return state;
 
-      const { [taskId]: deleted, ...remainingTasks } = list.tasks;
-      const taskOrder = list.taskOrder.filter(id => id !== taskId);
+      const added = addParsedTasks(list, tasks, options);
+      if (added.taskIds.length === 0) return state;
+      taskIds = added.taskIds;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: syncSorting(added.list, added.list.tasks[taskIds[0]].parentId),
+        },
+      };
+    });
+
+    return taskIds;
+  },
+
+  // Tag operations
+  addTaskTag: (listId: ListId, taskId: TaskId, tag: string) => {
+    set(state => {
+      const list = state.lists[listId];
+      const task = list?.tasks[taskId];
+      if (!task || !normaliseTag(tag) || hasTag(task, tag)) return state;
 
       return {
         lists: {
           ...state.lists,
           [listId]: {
             ...list,
-            tasks: remainingTasks,
-            taskOrder,
+            tasks: {
+              ...list.tasks,
+              [taskId]: {
+                ...task,
+                tags: normaliseTags([...(task.tags ?? []), tag]),
+                updatedAt: Date.now(),
+              },
+            },
             updatedAt: Date.now(),
           },
         },
@@ -179,11 +586,13 @@ export const useStore = create<Store>((set, get) => ({
     });
   },
 
-  toggleTaskDone: (listId: ListId, taskId: TaskId) => {
+  removeTaskTag: (listId: ListId, taskId: TaskId, tag: string) => {
     set(state => {
       const list = state.lists[listId];
       const task = list?.tasks[taskId];
-      if (!list || !task) return state;
+      if (!task || !hasTag(task, tag)) return state;
+
+      const tags = normaliseTags(task.tags ?? []).filter(t => t !== normaliseTag(tag));
 
       return {
         lists: {
@@ -194,7 +603,7 @@ export const useStore = create<Store>((set, get) => ({
               ...list.tasks,
               [taskId]: {
                 ...task,
-                done: !task.done,
+                tags: tags.length > 0 ? tags : undefined,
                 updatedAt: Date.now(),
               },
             },
@@ -205,18 +614,104 @@ export const useStore = create<Store>((set, get) => ({
     });
   },
 
-  // Task order operations
-  reorderTasks: (listId: ListId, taskOrder: TaskId[]) => {
+  renameTag: (from: string, to: string) => {
+    if (!allListsLoaded(get())) return false;
+
+    set(state => ({ lists: renameTagInLists(state.lists, from, to) }));
+    return true;
+  },
+
+  mergeTags: (sources: string[], target: string) => {
+    if (!allListsLoaded(get())) return false;
+
+    set(state => ({ lists: mergeTagsInLists(state.lists, sources, target) }));
+    return true;
+  },
+
+  deleteTag: (tag: string) => {
+    if (!allListsLoaded(get())) return false;
+
+    set(state => ({ lists: deleteTagInLists(state.lists, tag) }));
+    return true;
+  },
+
+  // Hierarchy operations
+  createSubtask: (listId: ListId, parentId: TaskId, title: string, note?: string, tags?: string[]) => {
+    const taskId = generateTaskId();
+    const now = Date.now();
+    const taskTags = normaliseTags(tags ?? []);
+
     set(state => {
       const list = state.lists[listId];
-      if (!list) return state;
+      if (!list?.tasks[parentId]) return state;
+
+      const newTask: Task = {
+        id: taskId,
+        title,
+        note,
+        tags: taskTags.length > 0 ? taskTags : undefined,
+        parentId,
+        done: false,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const updated: TaskList = {
+        ...list,
+        tasks: { ...list.tasks, [taskId]: newTask },
+        childOrder: { ...list.childOrder, [parentId]: [...levelOrder(list, parentId), taskId] },
+        updatedAt: now,
+      };
+
+      return {
+        lists: {
+          ...state.lists,
+          // A new open subtask reopens a finished parent
+          [listId]: syncSorting(rollUpCompletion(updated, taskId), parentId),
+        },
+      };
+    });
+
+    return taskId;
+  },
+
+  // Move a task under another (null for the top level); ignored if that would nest it in itself
+  moveTask: (listId: ListId, taskId: TaskId, parentId: TaskId | null) => {
+    set(state => {
+      const list = state.lists[listId];
+      const task = list?.tasks[taskId];
+      if (!task) return state;
+
+      const moved = moveTaskTo(list, taskId, parentId);
+      if (moved === list) return state;
+
+      // Completion rolls up into the new parent and out of the old one
+      let updated = rollUpCompletion(moved, taskId);
+      const oldSibling = levelOrder(updated, task.parentId)[0];
+      if (task.parentId !== undefined && oldSibling) updated = rollUpCompletion(updated, oldSibling);
+
+      updated = syncSorting(syncSorting(updated, task.parentId), parentId ?? undefined);
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: { ...updated, updatedAt: Date.now() },
+        },
+      };
+    });
+  },
+
+  reorderChildren: (listId: ListId, parentId: TaskId, childOrder: TaskId[]) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.tasks[parentId]) return state;
 
       return {
         lists: {
           ...state.lists,
           [listId]: {
             ...list,
-            taskOrder,
+            childOrder: { ...list.childOrder, [parentId]: respectDependencies(childOrder, list.tasks) },
             updatedAt: Date.now(),
           },
         },
@@ -224,44 +719,930 @@ export const useStore = create<Store>((set, get) => ({
     });
   },
 
-  // Hydration
-  hydrate: (newState: Partial<AppState>) => {
-    set(state => ({
-      ...state,
-      ...newState,
-      hydrated: true,
-    }));
-  },
+  // Trash operations
+  restoreTask: (listId: ListId, taskId: TaskId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.trash?.some(t => t.task.id === taskId)) return state;
 
-  setHydrated: (hydrated: boolean) => {
-    set({ hydrated });
+      const updated: TaskList = { ...restoreTrashedTask(list, taskId), updatedAt: Date.now() };
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: syncSorting(updated, updated.tasks[taskId]?.parentId),
+        },
+      };
+    });
   },
 
-  // Reset
-  reset: () => {
-    set(initialState);
+  purgeTask: (listId: ListId, taskId: TaskId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.trash?.some(t => t.task.id === taskId)) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: purgeTrash(list, t => t.task.id !== taskId),
+        },
+      };
+    });
   },
-}));
 
-// Selectors for common queries
-export const selectActiveList = (state: Store) => {
-  if (!state.activeListId) return null;
-  return state.lists[state.activeListId] || null;
-};
+  emptyTrash: (listId: ListId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.trash?.length) return state;
 
-export const selectActiveTasks = (state: Store) => {
-  const list = selectActiveList(state);
-  if (!list) return [];
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: purgeTrash(list, () => false),
+        },
+      };
+    });
+  },
 
-  return list.taskOrder
-    .map(id => list.tasks[id])
-    .filter(Boolean);
-};
+  purgeExpiredTrash: (retentionDays?: number) => {
+    set(state => {
+      const lists = purgeExpiredTrash(state.lists, retentionDays);
+      const unloadedLists = purgeExpiredSummaries(state.unloadedLists ?? {}, retentionDays);
+      if (lists === state.lists && unloadedLists === state.unloadedLists) return state;
 
-export const selectActiveTasksNotDone = (state: Store) => {
+      const kept = (listId: ListId) => Boolean(lists[listId] || unloadedLists[listId]);
+      return {
+        lists,
+        unloadedLists,
+        activeListId: state.activeListId && kept(state.activeListId) ? state.activeListId : null,
+      };
+    });
+  },
+
+  // Task order operations
+  // Blockers are kept above the tasks they block whatever order is requested
+  reorderTasks: (listId: ListId, taskOrder: TaskId[]) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            taskOrder: respectDependencies(taskOrder, list.tasks),
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  // Put a re-ranked subset back into the positions its tasks held
+  applyScopedOrder: (listId: ListId, scopedOrder: TaskId[], scopedTiers?: TaskId[][]) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list) return state;
+
+      const taskOrder = mergeScopedOrder(list.taskOrder, scopedOrder);
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            taskOrder: respectDependencies(taskOrder, list.tasks),
+            tiers: mergeScopedTiers(list.tiers, scopedOrder, scopedTiers ?? []),
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  // Sorting session operations
+  startSorting: (listId: ListId, algo: SortAlgo = 'merge', options?: StartOptions, parentId?: TaskId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list || (parentId !== undefined && !list.tasks[parentId])) return state;
+
+      const level = levelView(list, parentId);
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...withLevel(list, parentId, { ...level, sorting: startListSession(level, algo, options) }),
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  // Answer the pending pair: 1 if `a` matters more, -1 if `b` does, 0 if equal
+  answer: (listId: ListId, result: CompareResult, parentId?: TaskId) => {
+    set(state => updateSession(state, listId, parentId, (sorting, level) => {
+      if (!sorting.pending || sorting.pausedAt) return null;
+      return answerListSession(sorting, level, result);
+    }));
+  },
+
+  undoAnswer: (listId: ListId, parentId?: TaskId) => {
+    set(state => updateSession(state, listId, parentId, (sorting, level) =>
+      canUndoComparison(sorting) ? undoListSession(sorting, level) : null
+    ));
+  },
+
+  redoAnswer: (listId: ListId, parentId?: TaskId) => {
+    set(state => updateSession(state, listId, parentId, (sorting, level) =>
+      canRedoComparison(sorting) ? redoListSession(sorting, level) : null
+    ));
+  },
+
+  pause: (listId: ListId, parentId?: TaskId) => {
+    set(state => updateSession(state, listId, parentId, sorting =>
+      sorting.internal && !sorting.pausedAt ? { ...sorting, pausedAt: Date.now() } : null
+    ));
+  },
+
+  // Pick up a paused (or reloaded) session, catching up with any task changes
+  resume: (listId: ListId, parentId?: TaskId) => {
+    set(state => updateSession(state, listId, parentId, (sorting, level) =>
+      sorting.internal ? advanceListSession({ ...sorting, pausedAt: undefined }, level) : null
+    ));
+  },
+
+  // Stop without changing the order; answers are kept for the next session
+  abandon: (listId: ListId, parentId?: TaskId) => {
+    set(state => updateSession(state, listId, parentId, sorting =>
+      sorting.internal ? closeListSession(sorting) : null
+    ));
+  },
+
+  // Write a finished session's order into the list (or into the parent's subtasks)
+  applyResult: (listId: ListId, parentId?: TaskId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list) return state;
+
+      const level = levelView(list, parentId);
+      const result = level.sorting ? listSessionResult(level.sorting, level) : null;
+      if (!result || !level.sorting) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...withLevel(list, parentId, { ...result, sorting: closeListSession(level.sorting) }),
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  // Dependency operations
+  // Make `taskId` wait on `blockerId`; refused (false) if it would close a cycle
+  addDependency: (listId: ListId, taskId: TaskId, blockerId: TaskId) => {
+    const list = get().lists[listId];
+    const task = list?.tasks[taskId];
+    if (!task || !list.tasks[blockerId]) return false;
+    if (task.blockedBy?.includes(blockerId)) return true;
+    if (findDependencyCycle(list.tasks, taskId, blockerId)) return false;
+
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.tasks[taskId]) return state;
+
+      const tasks = {
+        ...list.tasks,
+        [taskId]: {
+          ...list.tasks[taskId],
+          blockedBy: [...(list.tasks[taskId].blockedBy ?? []), blockerId],
+          updatedAt: Date.now(),
+        },
+      };
+
+      const updated: TaskList = {
+        ...list,
+        tasks,
+        taskOrder: respectDependencies(list.taskOrder, tasks),
+        updatedAt: Date.now(),
+      };
+
+      // Running sessions over both tasks take the dependency as an answer; criteria
+      // rank on their own terms and never do
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: updateListSessions(updated, (sorting, parentId, criterionId) => {
+            if (criterionId !== undefined) return sorting;
+
+            const held = holdDependency(sorting, blockerId, taskId);
+            return held === sorting ? sorting : advanceListSession(held, levelView(updated, parentId));
+          }),
+        },
+      };
+    });
+
+    return true;
+  },
+
+  removeDependency: (listId: ListId, taskId: TaskId, blockerId: TaskId) => {
+    set(state => {
+      const list = state.lists[listId];
+      const task = list?.tasks[taskId];
+      if (!task?.blockedBy?.includes(blockerId)) return state;
+
+      const updated: TaskList = {
+        ...list,
+        tasks: {
+          ...list.tasks,
+          [taskId]: {
+            ...task,
+            blockedBy: task.blockedBy.filter(id => id !== blockerId),
+            updatedAt: Date.now(),
+          },
+        },
+        updatedAt: Date.now(),
+      };
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: updateListSessions(updated, sorting => releaseDependency(sorting, blockerId, taskId)),
+        },
+      };
+    });
+  },
+
+  applyComparisonPolicy: (listId: ListId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list) return state;
+
+      const retained = retainedTasks(list);
+      const updated = updateListSessions(list, sorting => applyComparisonPolicy(sorting, retained, list.comparisonPolicy));
+      if (updated === list) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...updated,
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  // Criteria operations
+  addCriterion: (listId: ListId, name: string, weight = 1, inverted = false) => {
+    const criterionId = generateCriterionId();
+
+    set(state => {
+      const list = state.lists[listId];
+      if (!list) return state;
+
+      const criterion: Criterion = { id: criterionId, name, weight, inverted };
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            criteria: [...(list.criteria ?? []), criterion],
+            criterionRankings: {
+              ...list.criterionRankings,
+              // Unranked until sorted, so it stays neutral in the combined order
+              [criterionId]: { taskOrder: [], sorting: null },
+            },
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+
+    return criterionId;
+  },
+
+  updateCriterion: (listId: ListId, criterionId: CriterionId, updates: Partial<Omit<Criterion, 'id'>>) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.criteria?.some(c => c.id === criterionId)) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            criteria: list.criteria.map(c => (c.id === criterionId ? { ...c, ...updates } : c)),
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  removeCriterion: (listId: ListId, criterionId: CriterionId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.criteria) return state;
+
+      const criterionRankings = { ...list.criterionRankings };
+      delete criterionRankings[criterionId];
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            criteria: list.criteria.filter(c => c.id !== criterionId),
+            criterionRankings,
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  setCriterionRanking: (listId: ListId, criterionId: CriterionId, updates: Partial<CriterionRanking>) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.criteria?.some(c => c.id === criterionId)) return state;
+
+      const current = list.criterionRankings?.[criterionId] ?? { taskOrder: [], sorting: null };
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            criterionRankings: {
+              ...list.criterionRankings,
+              [criterionId]: { ...current, ...updates },
+            },
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  // Combine the per-criterion rankings into taskOrder using the criteria weights
+  applyCriteriaWeights: (listId: ListId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.criteria?.length) return state;
+
+      const { taskOrder } = aggregateCriteria(list.taskOrder, list.criteria, list.criterionRankings ?? {});
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            taskOrder: respectDependencies(taskOrder, list.tasks),
+            tiers: undefined,
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  startCriterionSorting: (listId: ListId, criterionId: CriterionId, algo: SortAlgo = 'merge', options?: StartOptions) => {
+    set(state => updateCriterionRanking(state, listId, criterionId, (ranking, view) => ({
+      ...ranking,
+      sorting: startListSession(view, algo, options),
+    })));
+  },
+
+  answerCriterion: (listId: ListId, criterionId: CriterionId, result: CompareResult) => {
+    set(state => updateCriterionRanking(state, listId, criterionId, (ranking, view) => {
+      const sorting = ranking.sorting;
+      if (!sorting?.pending || sorting.pausedAt) return null;
+      return { ...ranking, sorting: answerListSession(sorting, view, result) };
+    }));
+  },
+
+  undoCriterionAnswer: (listId: ListId, criterionId: CriterionId) => {
+    set(state => updateCriterionRanking(state, listId, criterionId, (ranking, view) =>
+      ranking.sorting && canUndoComparison(ranking.sorting)
+        ? { ...ranking, sorting: undoListSession(ranking.sorting, view) }
+        : null
+    ));
+  },
+
+  redoCriterionAnswer: (listId: ListId, criterionId: CriterionId) => {
+    set(state => updateCriterionRanking(state, listId, criterionId, (ranking, view) =>
+      ranking.sorting && canRedoComparison(ranking.sorting)
+        ? { ...ranking, sorting: redoListSession(ranking.sorting, view) }
+        : null
+    ));
+  },
+
+  // Keep a finished criterion session's order as that criterion's ranking
+  applyCriterionResult: (listId: ListId, criterionId: CriterionId) => {
+    set(state => updateCriterionRanking(state, listId, criterionId, (ranking, view) => {
+      const result = ranking.sorting ? listSessionResult(ranking.sorting, view) : null;
+      if (!result || !ranking.sorting) return null;
+      return { taskOrder: result.taskOrder, sorting: closeListSession(ranking.sorting) };
+    }));
+  },
+
+  // Group ranking operations
+  // Snapshot the list's current order and answers as one person's ranking
+  addParticipant: (listId: ListId, name: string) => {
+    const participantId = generateParticipantId();
+
+    set(state => {
+      const list = state.lists[listId];
+      if (!list) return state;
+
+      const participant: ParticipantSet = {
+        id: participantId,
+        name,
+        taskOrder: [...list.taskOrder],
+        cache: { ...list.sorting?.cache },
+        updatedAt: Date.now(),
+      };
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            participants: [...(list.participants ?? []), participant],
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+
+    return participantId;
+  },
+
+  importParticipant: (listId: ListId, participant: ParticipantSet) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            participants: [...(list.participants ?? []), participant],
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  removeParticipant: (listId: ListId, participantId: ParticipantId) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.participants) return state;
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            participants: list.participants.filter(p => p.id !== participantId),
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  // Replace taskOrder with the combined order of everyone's rankings
+  applyGroupRanking: (listId: ListId, method?: GroupMethod) => {
+    set(state => {
+      const list = state.lists[listId];
+      if (!list?.participants?.length) return state;
+
+      const { taskOrder } = aggregateParticipants(list.taskOrder, list.participants, method);
+
+      return {
+        lists: {
+          ...state.lists,
+          [listId]: {
+            ...list,
+            taskOrder: respectDependencies(taskOrder, list.tasks),
+            tiers: undefined,
+            updatedAt: Date.now(),
+          },
+        },
+      };
+    });
+  },
+
+  // Hydration
+  hydrate: (newState: Partial<AppState>) => {
+    set(state => ({
+      ...state,
+      ...newState,
+      hydrated: true,
+    }));
+  },
+
+  setHydrated: (hydrated: boolean) => {
+    set({ hydrated });
+  },
+
+  loadList: (listId: ListId, list: TaskList | null) => {
+    set(state => {
+      if (!state.unloadedLists?.[listId]) return state;
+
+      const unloadedLists = { ...state.unloadedLists };
+      delete unloadedLists[listId];
+
+      // Trash that expired while the list sat in storage goes now
+      const lists = list ? { ...state.lists, ...purgeExpiredTrash({ [listId]: list }) } : state.lists;
+
+      return { lists, unloadedLists };
+    });
+  },
+
+  reportMigration: (report: MigrationReport) => {
+    set(state => ({
+      migrationReport: state.migrationReport ? mergeMigrationReports(state.migrationReport, report) : report,
+    }));
+  },
+
+  dismissMigrationReport: () => {
+    set({ migrationReport: null });
+  },
+
+  recoverList: (list: TaskList) => {
+    set(state => {
+      if (state.lists[list.id] || state.unloadedLists?.[list.id]) return state;
+      return { lists: { ...state.lists, [list.id]: list } };
+    });
+  },
+
+  // Backups
+  // Restored lists count as new edits, so they are saved and reach other tabs
+  restoreAppBackup: (lists: TaskList[], activeListId: ListId | null) => {
+    const now = Date.now();
+    const restored: AppState['lists'] = {};
+    lists.forEach(list => (restored[list.id] = { ...list, updatedAt: now }));
+
+    set({
+      lists: restored,
+      activeListId: activeListId && restored[activeListId] ? activeListId : null,
+      unloadedLists: {},
+      conflicts: {},
+    });
+  },
+
+  restoreListBackup: (list: TaskList) => {
+    // Undo puts back the list as loaded; an unloaded one would be lost with it
+    if (get().unloadedLists?.[list.id]) return false;
+
+    set(state => {
+      const conflicts = { ...state.conflicts };
+      delete conflicts[list.id];
+
+      return {
+        lists: { ...state.lists, [list.id]: { ...list, updatedAt: Date.now() } },
+        conflicts,
+      };
+    });
+    return true;
+  },
+
+  // Import
+  importLists: (lists: TaskList[]) => {
+    set(state => {
+      const next = { ...state.lists };
+
+      lists.forEach(list => {
+        const local = state.lists[list.id];
+        if (local) {
+          next[list.id] = syncSorting(mergeImportedList(local, list));
+        } else if (state.unloadedLists?.[list.id]) {
+          // Not loaded, so it cannot be merged here; keep both
+          const id = generateListId();
+          next[id] = { ...list, id, updatedAt: Date.now() };
+        } else {
+          next[list.id] = { ...list, updatedAt: Date.now() };
+        }
+      });
+
+      return { lists: next };
+    });
+  },
+
+  replaceAllLists: (lists: TaskList[], activeListId: ListId | null) => {
+    const now = Date.now();
+    const replaced: AppState['lists'] = {};
+    lists.forEach(list => (replaced[list.id] = { ...list, updatedAt: now }));
+
+    set({
+      lists: replaced,
+      activeListId: activeListId && replaced[activeListId] ? activeListId : lists[0]?.id ?? null,
+      unloadedLists: {},
+      conflicts: {},
+    });
+  },
+
+  // Cross-tab sync
+  applyRemoteList: (listId: ListId, list: TaskList | null) => {
+    set(state => {
+      const lists = { ...state.lists };
+      if (list) lists[listId] = list;
+      else delete lists[listId];
+
+      return {
+        lists,
+        activeListId: !list && state.activeListId === listId ? null : state.activeListId,
+      };
+    });
+  },
+
+  applyRemoteSummary: (listId: ListId, summary: ListSummary | null) => {
+    set(state => {
+      if (state.lists[listId]) return state;
+
+      const unloadedLists = { ...state.unloadedLists };
+      if (summary) unloadedLists[listId] = summary;
+      else delete unloadedLists[listId];
+
+      return { unloadedLists };
+    });
+  },
+
+  reportConflict: (conflict: ListConflict) => {
+    set(state => ({ conflicts: { ...state.conflicts, [conflict.listId]: conflict } }));
+  },
+
+  resolveConflict: (listId: ListId, keep: 'local' | 'remote' | 'both') => {
+    set(state => {
+      const conflict = state.conflicts?.[listId];
+      if (!conflict) return state;
+
+      const conflicts = { ...state.conflicts };
+      delete conflicts[listId];
+
+      const now = Date.now();
+      const local = state.lists[listId];
+      const lists = { ...state.lists };
+
+      if (keep === 'local') {
+        // A new updatedAt makes it save over the other tab's version
+        if (local) lists[listId] = { ...local, updatedAt: now };
+        return { lists, conflicts };
+      }
+
+      if (conflict.remote) lists[listId] = conflict.remote;
+      else delete lists[listId];
+
+      if (keep === 'both' && local) {
+        const copyId = generateListId();
+        lists[copyId] = { ...local, id: copyId, name: `${local.name} (this tab)`, updatedAt: now };
+      }
+
+      return {
+        lists,
+        conflicts,
+        activeListId: !conflict.remote && state.activeListId === listId ? null : state.activeListId,
+      };
+    });
+  },
+
+  // Reset
+  reset: () => {
+    set(initialState);
+  },
+}), {
+  // `hydrated` and other transient state are never recorded
+  track: ['lists', 'activeListId'],
+  ignore: ['setActiveList', 'loadList', 'applyRemoteSummary', 'reportConflict', 'recoverList'],
+  clearOn: ['hydrate', 'reset', 'restoreAppBackup', 'replaceAllLists'],
+  forgetOn: ['applyRemoteList'],
+  coalesce: {
+    answer: 'sorting',
+    undoAnswer: 'sorting',
+    redoAnswer: 'sorting',
+    pause: 'sorting',
+    resume: 'sorting',
+    answerCriterion: 'sorting',
+    undoCriterionAnswer: 'sorting',
+    redoCriterionAnswer: 'sorting',
+  },
+}));
+
+// Selectors for common queries
+// Archived and trashed lists are never active, even if another tab left them selected
+export const selectActiveList = (state: Store) => {
+  if (!state.activeListId) return null;
+
+  const list = state.lists[state.activeListId];
+  return list && isListVisible(list) ? list : null;
+};
+
+export const selectActiveTasks = (state: Store) => {
+  const list = selectActiveList(state);
+  if (!list) return [];
+
+  return list.taskOrder
+    .map(id => list.tasks[id])
+    .filter(Boolean);
+};
+
+export const selectActiveTasksNotDone = (state: Store) => {
   return selectActiveTasks(state).filter(task => !task.done);
 };
 
+// Active tasks matching a tag and/or done filter, e.g. { tags: { all: ['frontend'] }, done: false }
+export const selectActiveTasksFiltered = (filter: TaskFilter) => (state: Store) => {
+  return selectActiveTasks(state).filter(task => matchesTaskFilter(task, filter));
+};
+
+export const selectTasksByTag = (tag: string, done?: boolean) => (state: Store) => {
+  return selectActiveTasksFiltered({ tags: { all: [tag] }, done })(state);
+};
+
+// Tags in use across all lists not in the trash, with counts
+// Only loaded lists have their tasks in memory; see selectAllListsLoaded
+export const selectTagIndex = (state: Store) => {
+  return buildTagIndex(Object.values(state.lists).filter(list => list.deletedAt === undefined));
+};
+
 export const selectListById = (listId: ListId) => (state: Store) => {
   return state.lists[listId] || null;
 };
+
+// IDs of active tasks still waiting on an unfinished blocker
+export const selectActiveBlockedTaskIds = (state: Store) => {
+  const list = selectActiveList(state);
+  if (!list) return new Set<TaskId>();
+
+  return new Set(
+    list.taskOrder.filter(id => list.tasks[id] && isBlocked(list.tasks[id], list.tasks))
+  );
+};
+
+// Active tasks grouped into equal-priority tiers; tasks outside any tier stand alone
+export const selectActiveTiers = (state: Store) => {
+  const list = selectActiveList(state);
+  if (!list) return [];
+
+  const tierOf = new Map<TaskId, number>();
+  (list.tiers ?? []).forEach((tier, index) => tier.forEach(id => tierOf.set(id, index)));
+
+  const tiers: Task[][] = [];
+  let previous: number | undefined;
+
+  list.taskOrder.forEach(id => {
+    const task = list.tasks[id];
+    if (!task) return;
+
+    const tier = tierOf.get(id);
+    if (tier !== undefined && tier === previous) {
+      tiers[tiers.length - 1].push(task);
+    } else {
+      tiers.push([task]);
+    }
+    previous = tier;
+  });
+
+  return tiers;
+};
+
+// Per-criterion positions of each active task, e.g. for an impact/effort matrix
+export const selectActiveCriteriaMatrix = (state: Store) => {
+  const list = selectActiveList(state);
+  if (!list?.criteria?.length) return [];
+
+  const positions = criterionPositions(list.taskOrder, list.criteria, list.criterionRankings ?? {});
+
+  return list.taskOrder
+    .filter(id => list.tasks[id])
+    .map(id => ({ task: list.tasks[id], positions: positions[id] }));
+};
+
+// Group order for the active list alongside how much participants disagree on each task
+export const selectActiveGroupRanking = (method?: GroupMethod) => (state: Store) => {
+  const list = selectActiveList(state);
+  if (!list?.participants?.length) return null;
+
+  return aggregateParticipants(list.taskOrder, list.participants, method);
+};
+
+// The pair the active list's session is asking about, or null (none, paused or finished)
+export const selectCurrentPair = (state: Store) => {
+  const list = selectActiveList(state);
+  const pending = list?.sorting?.pending;
+  if (!pending || list.sorting?.pausedAt) return null;
+
+  const a = list.tasks[pending.a];
+  const b = list.tasks[pending.b];
+  return a && b ? { a, b } : null;
+};
+
+export const selectSortingProgress = (state: Store) => {
+  const sorting = selectActiveList(state)?.sorting;
+  return sorting?.internal ? getProgress(sorting) : null;
+};
+
+// Whether the active list has a finished session waiting for applyResult
+export const selectSortingComplete = (state: Store) => {
+  const sorting = selectActiveList(state)?.sorting;
+  return !!sorting?.internal && isComplete(sorting);
+};
+
+export const selectCanUndoAnswer = (state: Store) => {
+  const sorting = selectActiveList(state)?.sorting;
+  return !!sorting?.internal && canUndoComparison(sorting);
+};
+
+export const selectCanUndo = (state: Store) => state.history.past.length > 0;
+export const selectCanRedo = (state: Store) => state.history.future.length > 0;
+
+// Label of the action the next undo would revert, e.g. for "Undo deleteTask"
+export const selectUndoLabel = (state: Store) => state.history.past.at(-1)?.label ?? null;
+
+// Lists for the switcher: not archived and not in the trash, loaded or not
+export const selectVisibleLists = (state: Store): ListSummary[] => {
+  return buildIndex(state).lists.filter(summary => summary.archivedAt === undefined && summary.deletedAt === undefined);
+};
+
+// False while some lists are only known by their summaries; selectors over tasks
+// (tags, search) cover loaded lists only, so load the rest first
+export const selectAllListsLoaded = (state: Store) => allListsLoaded(state);
+
+// Every list, loaded or not, for switchers that should not wait on storage
+export const selectListSummaries = (state: Store): ListSummary[] => {
+  return buildIndex(state).lists;
+};
+
+// Lists edited here and in another tab, oldest conflict first
+export const selectConflicts = (state: Store): ListConflict[] => {
+  return Object.values(state.conflicts ?? {}).sort((a, b) => a.detectedAt - b.detectedAt);
+};
+
+export const selectActiveConflict = (state: Store) => {
+  if (!state.activeListId) return null;
+  return state.conflicts?.[state.activeListId] ?? null;
+};
+
+export const selectArchivedLists = (state: Store): ListSummary[] => {
+  return buildIndex(state).lists.filter(summary => summary.archivedAt !== undefined && summary.deletedAt === undefined);
+};
+
+export const selectTrashedLists = (state: Store): ListSummary[] => {
+  return buildIndex(state).lists.filter(summary => summary.deletedAt !== undefined);
+};
+
+// Trashed tasks of the active list, most recently deleted first
+export const selectActiveTrash = (state: Store) => {
+  const list = selectActiveList(state);
+  if (!list?.trash) return [];
+
+  return [...list.trash].sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+// Tasks whose title or note contains `query`, across active and archived lists
+// Like selectTagIndex, this only sees lists that are loaded
+export const selectSearchResults = (query: string) => (state: Store) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  return Object.values(state.lists)
+    .filter(list => list.deletedAt === undefined)
+    .flatMap(list =>
+      list.taskOrder
+        .map(id => list.tasks[id])
+        .filter(task => task && `${task.title}\n${task.note ?? ''}`.toLowerCase().includes(needle))
+        .map(task => ({ list, task }))
+    );
+};
+
+// Active list as a tree of tasks and subtasks, completion rolled up from the leaves
+export const selectActiveTaskTree = (state: Store) => {
+  const list = selectActiveList(state);
+  return list ? buildTaskTree(list) : [];
+};
+
+// Pair and progress of the session ranking one parent's subtasks in the active list
+export const selectChildSession = (parentId: TaskId) => (state: Store) => {
+  const list = selectActiveList(state);
+  const sorting = list?.childSorting?.[parentId];
+  if (!list || !sorting?.internal) return null;
+
+  const pending = sorting.pending;
+  const pair = pending && !sorting.pausedAt && list.tasks[pending.a] && list.tasks[pending.b]
+    ? { a: list.tasks[pending.a], b: list.tasks[pending.b] }
+    : null;
+
+  return { pair, progress: getProgress(sorting), complete: isComplete(sorting) };
+};
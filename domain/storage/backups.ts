@@ -0,0 +1,255 @@
+// Rolling local backups: copies of everything in storage, taken hourly, daily and weekly
+// and kept under their own keys, so a bad write or a bug cannot take the history with it
+
+import type { ListId, ListSummary, MigrationReport, TaskList } from '../types';
+import { get, set, del, withLock } from './idb';
+import { listKey, INDEX_KEY, type StorageIndex } from './listIndex';
+import { emptyMigrationReport, migrateTaskList, recordMigration } from './migrations';
+import { generateId } from '../utils/uuid';
+
+const CATALOGUE_KEY = 'prioritiser:backups:v1';
+const BACKUP_KEY_PREFIX = 'prioritiser:backup:v1:';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type BackupTier = 'hourly' | 'daily' | 'weekly';
+
+const TIER_PERIOD_MS: Record<BackupTier, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+
+// How many backups of each tier to keep; one backup can count for several tiers
+export interface BackupPolicy {
+  hourly: number;
+  daily: number;
+  weekly: number;
+  manual: number;           // backups taken on request or before a restore or import
+}
+
+export const DEFAULT_BACKUP_POLICY: BackupPolicy = {
+  hourly: 24,
+  daily: 7,
+  weekly: 8,
+  manual: 10,
+};
+
+export interface BackupInfo {
+  id: string;
+  takenAt: number;
+  reason: 'scheduled' | 'manual' | 'before-restore' | 'before-import';
+  tiers: BackupTier[];      // empty unless scheduled
+  lists: ListSummary[];     // lists in the backup, as they were
+}
+
+interface Backup {
+  id: string;
+  activeListId: ListId | null;
+  lists: unknown[];         // list records as stored, migrated when read back
+}
+
+function backupKey(id: string): string {
+  return `${BACKUP_KEY_PREFIX}${id}`;
+}
+
+// Backups are taken and pruned by every open tab. Reading the catalogue, changing it and
+// writing it back happen under a lock shared across tabs, so one tab cannot overwrite
+// another's entries and leave their records behind. Code holding the lock uses the
+// unlocked helpers.
+function withCatalogueLock<T>(fn: () => Promise<T>): Promise<T> {
+  return withLock(CATALOGUE_KEY, fn);
+}
+
+// Newest first
+export async function listBackups(): Promise<BackupInfo[]> {
+  const catalogue = (await get<BackupInfo[]>(CATALOGUE_KEY)) ?? [];
+  return [...catalogue].sort((a, b) => b.takenAt - a.takenAt);
+}
+
+// Tiers with no backup in their current period
+export function dueTiers(backups: BackupInfo[], now: number): BackupTier[] {
+  return (Object.keys(TIER_PERIOD_MS) as BackupTier[]).filter(
+    tier => !backups.some(backup => backup.tiers.includes(tier) && now - backup.takenAt < TIER_PERIOD_MS[tier])
+  );
+}
+
+// Backups no tier's retention keeps
+export function expiredBackups(backups: BackupInfo[], policy: BackupPolicy): BackupInfo[] {
+  const newestFirst = [...backups].sort((a, b) => b.takenAt - a.takenAt);
+  const kept = new Set<string>();
+
+  (Object.keys(TIER_PERIOD_MS) as BackupTier[]).forEach(tier => {
+    newestFirst
+      .filter(backup => backup.tiers.includes(tier))
+      .slice(0, policy[tier])
+      .forEach(backup => kept.add(backup.id));
+  });
+  newestFirst
+    .filter(backup => backup.reason !== 'scheduled')
+    .slice(0, policy.manual)
+    .forEach(backup => kept.add(backup.id));
+
+  return backups.filter(backup => !kept.has(backup.id));
+}
+
+// Lists changed since `backup` was taken, judged by the index
+function changedSince(backup: BackupInfo | undefined, index: StorageIndex): boolean {
+  if (!backup) return true;
+
+  const fingerprint = (lists: ListSummary[]) => lists.map(list => `${list.id}@${list.updatedAt}`).sort().join(',');
+  return fingerprint(backup.lists) !== fingerprint(index.lists);
+}
+
+// Copy everything in storage into a new backup. Undefined when nothing is stored yet.
+export function takeBackup(
+  reason: BackupInfo['reason'] = 'manual',
+  tiers: BackupTier[] = [],
+  now: number = Date.now()
+): Promise<BackupInfo | undefined> {
+  return withCatalogueLock(() => writeBackup(reason, tiers, now));
+}
+
+async function writeBackup(reason: BackupInfo['reason'], tiers: BackupTier[], now: number): Promise<BackupInfo | undefined> {
+  const index = await get<StorageIndex>(INDEX_KEY);
+  if (!index) return undefined;
+
+  const lists = (await Promise.all(index.lists.map(summary => get<unknown>(listKey(summary.id))))).filter(Boolean);
+  const info: BackupInfo = { id: generateId(), takenAt: now, reason, tiers, lists: index.lists };
+  const backup: Backup = { id: info.id, activeListId: index.activeListId, lists };
+
+  // The catalogue only ever points at backups that were written in full
+  await set(backupKey(info.id), backup);
+  await set(CATALOGUE_KEY, [...(await listBackups()), info]);
+
+  return info;
+}
+
+export function deleteBackups(ids: string[]): Promise<void> {
+  return withCatalogueLock(() => removeBackups(ids));
+}
+
+async function removeBackups(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  const removed = new Set(ids);
+  await set(CATALOGUE_KEY, (await listBackups()).filter(backup => !removed.has(backup.id)));
+  await Promise.all(ids.map(id => del(backupKey(id))));
+}
+
+// Take whatever backups are due and drop those past retention. Nothing new is taken
+// while the stored lists are unchanged since the latest backup. Tabs checking at the
+// same time take turns, so the second sees the first one's backup and takes none.
+export function runScheduledBackups(
+  policy: BackupPolicy = DEFAULT_BACKUP_POLICY,
+  now: number = Date.now()
+): Promise<BackupInfo | undefined> {
+  return withCatalogueLock(async () => {
+    const backups = await listBackups();
+    const tiers = dueTiers(backups, now);
+    const index = await get<StorageIndex>(INDEX_KEY);
+
+    let taken: BackupInfo | undefined;
+    if (tiers.length > 0 && index && changedSince(backups[0], index)) {
+      taken = await writeBackup('scheduled', tiers, now);
+    }
+
+    await removeBackups(expiredBackups(taken ? [taken, ...backups] : backups, policy).map(backup => backup.id));
+    return taken;
+  });
+}
+
+export interface BackupContents {
+  lists: TaskList[];
+  activeListId: ListId | null;
+  report: MigrationReport;  // backups from older versions go through the migrations
+}
+
+export async function readBackup(id: string): Promise<BackupContents | undefined> {
+  const backup = await get<Backup>(backupKey(id));
+  if (!backup) return undefined;
+
+  const report = emptyMigrationReport();
+  const lists = backup.lists
+    .map(stored => recordMigration(report, migrateTaskList(stored)))
+    .filter((list): list is TaskList => list !== undefined);
+
+  return { lists, activeListId: backup.activeListId, report };
+}
+
+// How a list differs now from the backup; 'added' lists exist now but not in the backup
+export interface ListDiff {
+  listId: ListId;
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  tasksAdded: number;
+  tasksRemoved: number;
+  tasksChanged: number;
+  reordered: boolean;       // tasks in both are ranked differently
+}
+
+function orderOf(list: TaskList, kept: (id: string) => boolean): string {
+  const levels = [list.taskOrder, ...Object.values(list.childOrder ?? {})];
+  return JSON.stringify(levels.map(order => order.filter(kept)));
+}
+
+export function diffLists(backup: TaskList[], current: TaskList[]): ListDiff[] {
+  const before = new Map(backup.map(list => [list.id, list]));
+  const after = new Map(current.map(list => [list.id, list]));
+  const ids = [...new Set([...before.keys(), ...after.keys()])];
+
+  return ids.map(listId => {
+    const old = before.get(listId);
+    const now = after.get(listId);
+    const name = (now ?? old)!.name;
+
+    if (!old || !now) {
+      const tasks = Object.keys((now ?? old)!.tasks).length;
+      return {
+        listId,
+        name,
+        status: old ? 'removed' : 'added',
+        tasksAdded: old ? 0 : tasks,
+        tasksRemoved: old ? tasks : 0,
+        tasksChanged: 0,
+        reordered: false,
+      };
+    }
+
+    const oldIds = Object.keys(old.tasks);
+    const newIds = Object.keys(now.tasks);
+    const tasksAdded = newIds.filter(id => !old.tasks[id]).length;
+    const tasksRemoved = oldIds.filter(id => !now.tasks[id]).length;
+    const tasksChanged = newIds.filter(
+      id => old.tasks[id] && JSON.stringify(old.tasks[id]) !== JSON.stringify(now.tasks[id])
+    ).length;
+
+    const inBoth = (id: string) => Boolean(old.tasks[id] && now.tasks[id]);
+    const reordered = orderOf(old, inBoth) !== orderOf(now, inBoth);
+    const changed = tasksAdded + tasksRemoved + tasksChanged > 0 || reordered || old.name !== now.name;
+
+    return {
+      listId,
+      name,
+      status: changed ? 'changed' : 'unchanged',
+      tasksAdded,
+      tasksRemoved,
+      tasksChanged,
+      reordered,
+    };
+  });
+}
+
+// Compare a backup with what is in storage now
+export async function compareWithBackup(id: string): Promise<ListDiff[] | undefined> {
+  const backup = await readBackup(id);
+  if (!backup) return undefined;
+
+  const index = await get<StorageIndex>(INDEX_KEY);
+  const current = (await Promise.all((index?.lists ?? []).map(summary => get<unknown>(listKey(summary.id)))))
+    .filter(Boolean)
+    .map(stored => migrateTaskList(stored))
+    .flatMap(result => (result.ok ? [result.list] : []));
+
+  return diffLists(backup.lists, current);
+}
@@ -112,6 +112,19 @@ export async function del(key: string): Promise<void> {
   return storageAdapter.delete(key);
 }
 
+// Run `fn` while holding the named lock, shared by every tab of the app, so read-modify-write
+// sequences on the same records take turns. Browsers without Web Locks run it unguarded.
+// The lock is not reentrant.
+export async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return fn();
+
+  let result!: T;
+  await navigator.locks.request(name, async () => {
+    result = await fn();
+  });
+  return result;
+}
+
 export function getStorageType(): 'indexeddb' | 'localstorage' | 'none' {
   return storageType;
 }
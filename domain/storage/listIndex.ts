@@ -0,0 +1,48 @@
+// Storage layout: each list under its own key plus a small index record, so a save
+// rewrites only the lists that changed and lists can be loaded when opened
+
+import type { AppState, ListId, ListSummary, TaskList } from '../types';
+
+// The whole app in one record, as saved before lists were split out
+export const LEGACY_KEY = 'prioritiser:app:v1';
+export const INDEX_KEY = 'prioritiser:index:v1';
+// Lists that failed migration, as found
+export const QUARANTINE_KEY = 'prioritiser:quarantine:v1';
+const LIST_KEY_PREFIX = 'prioritiser:list:v1:';
+
+export interface StorageIndex {
+  version: 1;
+  activeListId: ListId | null;
+  lists: ListSummary[];     // every stored list, oldest first
+}
+
+export function listKey(listId: ListId): string {
+  return `${LIST_KEY_PREFIX}${listId}`;
+}
+
+export function summariseList(list: TaskList): ListSummary {
+  return {
+    id: list.id,
+    name: list.name,
+    taskCount: Object.keys(list.tasks).length,
+    createdAt: list.createdAt,
+    updatedAt: list.updatedAt,
+    archivedAt: list.archivedAt,
+    deletedAt: list.deletedAt,
+  };
+}
+
+// Index of the lists in memory, those not loaded yet and any `others` (e.g. lists another
+// tab added)
+export function buildIndex(
+  state: Pick<AppState, 'lists' | 'activeListId' | 'unloadedLists'>,
+  others: ListSummary[] = []
+): StorageIndex {
+  const lists = [
+    ...Object.values(state.lists).map(summariseList),
+    ...Object.values(state.unloadedLists ?? {}).filter(summary => !state.lists[summary.id]),
+    ...others,
+  ].sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+
+  return { version: 1, activeListId: state.activeListId, lists };
+}
@@ -0,0 +1,226 @@
+// Per-list persistence: loads the index and the active list up front, other lists on
+// demand, and saves only what changed since the last save. Lists that cannot be
+// migrated are kept in a quarantine record instead of being dropped.
+
+import type {
+  AppState,
+  ListConflict,
+  ListId,
+  ListSummary,
+  MigrationReport,
+  QuarantinedList,
+  TaskList,
+} from '../types';
+import { get, set, del, withLock } from './idb';
+import {
+  emptyMigrationReport,
+  isEmptyMigrationReport,
+  migrateAppState,
+  migrateTaskList,
+  recordMigration,
+} from './migrations';
+import {
+  buildIndex,
+  listKey,
+  summariseList,
+  INDEX_KEY,
+  LEGACY_KEY,
+  QUARANTINE_KEY,
+  type StorageIndex,
+} from './listIndex';
+import { conflictKind } from './tabSync';
+
+// What storage held after the last load or save
+export interface SavedSnapshot {
+  lists: Record<ListId, TaskList>;   // list objects as written; unchanged lists keep their reference
+  index: StorageIndex | null;
+}
+
+export function emptySnapshot(): SavedSnapshot {
+  return { lists: {}, index: null };
+}
+
+// Quarantined lists, replacing entries with the same ID
+async function quarantine(entries: QuarantinedList[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  const ids = new Set(entries.map(entry => entry.id));
+  const kept = (await loadQuarantine()).filter(entry => !ids.has(entry.id));
+  await set(QUARANTINE_KEY, [...kept, ...entries]);
+}
+
+export async function loadQuarantine(): Promise<QuarantinedList[]> {
+  return (await get<QuarantinedList[]>(QUARANTINE_KEY)) ?? [];
+}
+
+export async function discardQuarantined(id: string): Promise<void> {
+  const entries = await loadQuarantine();
+  await set(QUARANTINE_KEY, entries.filter(entry => entry.id !== id));
+}
+
+// Migrate a quarantined list again, e.g. after an update that can handle it. On success
+// the entry is removed and the list returned for the store to take back.
+export async function retryQuarantined(id: string): Promise<TaskList | undefined> {
+  const entry = (await loadQuarantine()).find(e => e.id === id);
+  if (!entry) return undefined;
+
+  const result = migrateTaskList(entry.data);
+  if (!result.ok) {
+    await quarantine([{ ...result.quarantined, id }]);
+    return undefined;
+  }
+
+  await discardQuarantined(id);
+  return result.list;
+}
+
+// Split the old single record into per-list records. The old record is removed only
+// after everything else is written, so an interrupted migration starts over next time.
+async function migrateLegacyStorage(): Promise<{ index: StorageIndex; report: MigrationReport } | undefined> {
+  const legacy = await get<unknown>(LEGACY_KEY);
+  if (!legacy) return undefined;
+
+  const state = migrateAppState(legacy);
+  const report = state.migrationReport ?? emptyMigrationReport();
+  await quarantine(report.quarantined);
+  await Promise.all(Object.values(state.lists).map(list => set(listKey(list.id), list)));
+
+  const index = buildIndex(state);
+  await set(INDEX_KEY, index);
+  await del(LEGACY_KEY);
+
+  return { index, report };
+}
+
+// Read and migrate one list. A migrated list is written back straight away: callers
+// keep it as what storage holds, so saves would otherwise never rewrite it. Lists that
+// fail migration move to the quarantine (the caller drops them from the index);
+// `report`, if given, collects what happened.
+export async function loadList(listId: ListId, report?: MigrationReport): Promise<TaskList | undefined> {
+  const stored = await get<unknown>(listKey(listId));
+  if (!stored) return undefined;
+
+  const result = migrateTaskList(stored);
+  if (!result.ok) await quarantine([result.quarantined]);
+  else if (result.migration) await set(listKey(listId), result.list);
+  return recordMigration(report ?? emptyMigrationReport(), result);
+}
+
+// State to hydrate from: the active list loaded, every other list as a summary.
+// Undefined when nothing has been saved yet.
+export async function loadAppState(): Promise<{ state: Partial<AppState>; snapshot: SavedSnapshot } | undefined> {
+  let index = await get<StorageIndex>(INDEX_KEY);
+  let report = emptyMigrationReport();
+
+  if (!index) {
+    const legacy = await migrateLegacyStorage();
+    if (!legacy) return undefined;
+    ({ index, report } = legacy);
+  }
+
+  const lists: AppState['lists'] = {};
+  const active = index.activeListId ? await loadList(index.activeListId, report) : undefined;
+  if (active) lists[active.id] = active;
+
+  // A list missing from storage drops out of the index on the next save
+  const unloadedLists: AppState['unloadedLists'] = {};
+  index.lists.forEach(summary => {
+    if (summary.id !== index.activeListId) unloadedLists[summary.id] = summary;
+  });
+
+  return {
+    state: {
+      lists,
+      activeListId: active ? active.id : null,
+      unloadedLists,
+      migrationReport: isEmptyMigrationReport(report) ? null : report,
+    },
+    snapshot: { lists: { ...lists }, index },
+  };
+}
+
+export interface SaveResult {
+  snapshot: SavedSnapshot;  // what to diff the next save against
+  changed: ListSummary[];   // lists written
+  removed: ListId[];        // lists deleted
+  conflicts: ListConflict[]; // lists another tab saved since this tab last did; left unwritten
+}
+
+// The stored record's `updatedAt`, read without migrating it
+function storedUpdatedAt(stored: unknown): unknown {
+  return typeof stored === 'object' && stored !== null && 'updatedAt' in stored ? stored.updatedAt : undefined;
+}
+
+// Write lists that changed since `previous`, delete lists that are gone, and rewrite the
+// index if it changed. A list whose stored `updatedAt` no longer matches the version this
+// tab last saved was changed elsewhere, and is reported as a conflict instead of written.
+// Tabs save one at a time, so none can write between another's check and its write.
+export function saveChanges(previous: SavedSnapshot, state: AppState): Promise<SaveResult> {
+  return withLock(INDEX_KEY, () => writeChanges(previous, state));
+}
+
+async function writeChanges(previous: SavedSnapshot, state: AppState): Promise<SaveResult> {
+  const stored = await get<StorageIndex>(INDEX_KEY);
+  const storedSummaries = new Map((stored?.lists ?? []).map(summary => [summary.id, summary]));
+  const conflicts: ListConflict[] = [];
+
+  const candidates = Object.values(state.lists).filter(
+    list => previous.lists[list.id] !== list && !state.conflicts?.[list.id]
+  );
+
+  const toWrite: TaskList[] = [];
+  for (const list of candidates) {
+    const base = previous.lists[list.id];
+    if (base && storedSummaries.get(list.id)?.updatedAt !== base.updatedAt) {
+      // The index may lag a list record, so check the record itself. It is only read:
+      // a save is no place to quarantine a list or write back a migrated one.
+      const record = await get<unknown>(listKey(list.id));
+      if (storedUpdatedAt(record) !== base.updatedAt) {
+        // A record this version cannot read counts as gone
+        const migrated = record ? migrateTaskList(record) : null;
+        const remote = migrated?.ok ? migrated.list : null;
+        conflicts.push({ listId: list.id, kind: conflictKind(base, list, remote), remote, detectedAt: Date.now() });
+        continue;
+      }
+    }
+    toWrite.push(list);
+  }
+
+  // Lists another tab added that this tab has not heard of yet stay in the index
+  const known = new Set([
+    ...Object.keys(state.lists),
+    ...Object.keys(state.unloadedLists ?? {}),
+    ...(previous.index?.lists ?? []).map(summary => summary.id),
+  ]);
+  const index = buildIndex(state, (stored?.lists ?? []).filter(summary => !known.has(summary.id)));
+  const kept = new Set(index.lists.map(summary => summary.id));
+
+  const removed = [
+    ...new Set([...Object.keys(previous.lists), ...(previous.index?.lists ?? []).map(summary => summary.id)]),
+  ].filter(id => !kept.has(id));
+
+  await Promise.all([
+    ...toWrite.map(list => set(listKey(list.id), list)),
+    ...removed.map(id => del(listKey(id))),
+  ]);
+
+  if (JSON.stringify(index) !== JSON.stringify(previous.index)) {
+    await set(INDEX_KEY, index);
+  }
+
+  // Storage now holds what was written, and the other tab's version of conflicting lists
+  const lists = { ...previous.lists };
+  removed.forEach(id => delete lists[id]);
+  toWrite.forEach(list => (lists[list.id] = list));
+  conflicts.forEach(({ listId, remote }) => {
+    if (remote) lists[listId] = remote;
+    else delete lists[listId];
+  });
+
+  return {
+    snapshot: { lists, index },
+    changed: toWrite.map(summariseList),
+    removed,
+    conflicts,
+  };
+}
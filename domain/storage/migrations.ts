@@ -1,64 +1,305 @@
 // Schema version management and migrations
+// Each stored list is stepped up one version at a time on a copy, checked against the
+// full schema, and only then accepted. Lists that still fail are quarantined as found.
 
-import type { TaskList, AppState } from '../types';
+import type {
+  TaskList,
+  Task,
+  TaskId,
+  AppState,
+  SortingState,
+  ListMigration,
+  MigrationReport,
+  QuarantinedList,
+  SchemaIssue,
+} from '../types';
+import { normaliseTags } from '../utils/tags';
+import { isSessionIssue, validateTaskListSchema } from './schema';
 
-const CURRENT_VERSION = 1;
+const CURRENT_VERSION = 2;
 
-// Migration functions for each version upgrade
-type MigrationFn = (data: any) => any;
+// Lists as stored at each schema version
+// v1: subtasks could sit in taskOrder, tags were stored as typed, and orders could
+// refer to tasks that no longer exist
+type ListV1 = Omit<TaskList, 'version'> & { version?: 1 };
+// v2: every task ranked exactly once, in its parent's level; tags normalised
+type ListV2 = TaskList;
 
-const migrations: Record<number, MigrationFn> = {
-  // Example migration from v0 to v1 (when we add migrations in future)
-  // 1: (data) => {
-  //   // Transform data structure
-  //   return data;
-  // },
+interface MigrationStep<From, To> {
+  to: number;               // version the step produces
+  description: string;      // shown in the migration report
+  migrate: (list: From) => To;
+}
+
+// Tag legacy engine cursors; sessions saved before cursors were tagged belong to `algo`
+function tagSorting(sorting: SortingState | null | undefined): SortingState | null {
+  if (!sorting) return null;
+
+  const internal = sorting.internal as { kind?: string } | null;
+  if (internal && typeof internal === 'object' && !internal.kind) {
+    return { ...sorting, internal: { ...internal, kind: sorting.algo } as SortingState['internal'] };
+  }
+  return sorting;
+}
+
+const v1ToV2: MigrationStep<ListV1, ListV2> = {
+  to: 2,
+  description: 'Ranked subtasks under their parents, normalised tags and dropped references to missing tasks',
+  migrate: list => {
+    const tasks: Record<TaskId, Task> = {};
+    Object.values(list.tasks).forEach(task => {
+      const tags = normaliseTags(task.tags ?? []);
+      tasks[task.id] = { ...task, tags: tags.length > 0 ? tags : undefined };
+    });
+
+    // Tasks whose parent is gone move to the top level
+    Object.values(tasks).forEach(task => {
+      if (task.parentId !== undefined && !tasks[task.parentId]) {
+        tasks[task.id] = { ...task, parentId: undefined };
+      }
+    });
+
+    // Parents that make a task its own ancestor: each cycle is broken at its newest
+    // task, whichever task the walk up happened to start from
+    const rooted = new Set<TaskId>();
+    Object.keys(tasks).forEach(start => {
+      const path: TaskId[] = [];
+      let id: TaskId | undefined = start;
+      while (id !== undefined && !rooted.has(id)) {
+        if (path.includes(id)) {
+          const cycle = path.slice(path.indexOf(id));
+          const newest = cycle.reduce((a, b) =>
+            tasks[b].createdAt > tasks[a].createdAt || (tasks[b].createdAt === tasks[a].createdAt && b > a) ? b : a
+          );
+          tasks[newest] = { ...tasks[newest], parentId: undefined };
+          break;
+        }
+        path.push(id);
+        id = tasks[id].parentId;
+      }
+      path.forEach(step => rooted.add(step));
+    });
+
+    Object.values(tasks).forEach(task => {
+      if (!task.blockedBy) return;
+      const blockedBy = task.blockedBy.filter(id => id !== task.id && tasks[id]);
+      tasks[task.id] = { ...task, blockedBy: blockedBy.length > 0 ? blockedBy : undefined };
+    });
+
+    // Keep the existing ranks, each task in its own level; unranked tasks go last, oldest first
+    const levels = new Map<TaskId | undefined, TaskId[]>();
+    const placed = new Set<TaskId>();
+    const place = (id: TaskId) => {
+      const task = tasks[id];
+      if (!task || placed.has(id)) return;
+      placed.add(id);
+      levels.set(task.parentId, [...(levels.get(task.parentId) ?? []), id]);
+    };
+
+    list.taskOrder.forEach(place);
+    Object.values(list.childOrder ?? {}).forEach(order => order.forEach(place));
+    Object.values(tasks)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach(task => place(task.id));
+
+    const taskOrder = levels.get(undefined) ?? [];
+    const childOrder: Record<TaskId, TaskId[]> = {};
+    levels.forEach((order, parentId) => {
+      if (parentId !== undefined) childOrder[parentId] = order;
+    });
+
+    const childSorting: Record<TaskId, SortingState | null> = {};
+    Object.entries(list.childSorting ?? {}).forEach(([parentId, sorting]) => {
+      if (tasks[parentId]) childSorting[parentId] = tagSorting(sorting);
+    });
+
+    const criterionRankings = list.criterionRankings && { ...list.criterionRankings };
+    Object.entries(criterionRankings ?? {}).forEach(([id, ranking]) => {
+      criterionRankings![id] = { ...ranking, sorting: tagSorting(ranking.sorting) };
+    });
+
+    const topLevel = new Set(taskOrder);
+    const tiers = list.tiers
+      ?.map(tier => tier.filter(id => topLevel.has(id)))
+      .filter(tier => tier.length > 0);
+
+    return {
+      ...list,
+      tasks,
+      taskOrder,
+      tiers,
+      childOrder: Object.keys(childOrder).length > 0 ? childOrder : undefined,
+      childSorting: list.childSorting ? childSorting : undefined,
+      criterionRankings,
+      sorting: tagSorting(list.sorting),
+      version: 2,
+    };
+  },
 };
 
-export function migrateTaskList(list: any): TaskList {
-  let current = list;
-  const startVersion = current.version || 0;
+// Brings a list saved at `version` up to `To`, adding each step it runs to `applied`
+type Upgrade<To> = (stored: unknown, version: number, applied: string[]) => To;
+
+// A list saved at the oldest version, whose shape migrateTaskList has already checked
+const fromV1: Upgrade<ListV1> = stored => stored as ListV1;
 
-  // Apply migrations sequentially
-  for (let v = startVersion; v < CURRENT_VERSION; v++) {
-    const migrateFn = migrations[v + 1];
-    if (migrateFn) {
-      current = migrateFn(current);
+// Follow `upgrade` with `step`. A list saved at the step's version or later is already
+// in its output shape, so neither the step nor the ones before it run.
+function then<From, To>(upgrade: Upgrade<From>, step: MigrationStep<From, To>): Upgrade<To> {
+  return (stored, version, applied) => {
+    if (version >= step.to) return stored as To;
+
+    const list = upgrade(stored, version, applied);
+    try {
+      const next = step.migrate(list);
+      applied.push(step.description);
+      return next;
+    } catch (error) {
+      throw new Error(`migration to v${step.to} failed: ${(error as Error).message}`);
     }
+  };
+}
+
+// Every step in order, each typed against the one before; ends at the current version
+const upgradeList: Upgrade<TaskList> = then(fromV1, v1ToV2);
+
+export type ListMigrationResult =
+  | { ok: true; list: TaskList; migration: ListMigration | null } // null when nothing changed
+  | { ok: false; quarantined: QuarantinedList };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Lists saved before versions were recorded count as v1
+function storedVersion(stored: unknown): number {
+  return isObject(stored) && typeof stored.version === 'number' ? stored.version : 1;
+}
+
+// Set sessions the schema rejected to null, describing each for the report
+function dropSessions(list: TaskList, issues: SchemaIssue[]): string[] {
+  const paths = new Set(issues.map(issue => issue.path.match(/^(sorting|childSorting\.[^.]+|criterionRankings\.[^.]+\.sorting)/)![1]));
+
+  return [...paths].map(path => {
+    const [key, id] = path.split('.');
+    if (key === 'sorting') {
+      list.sorting = null;
+      return 'Dropped the sorting session, which could not be resumed';
+    }
+    if (key === 'childSorting') {
+      list.childSorting![id] = null;
+      return `Dropped the sorting session for the subtasks of ${list.tasks[id]?.title ?? id}`;
+    }
+    list.criterionRankings![id] = { ...list.criterionRankings![id], sorting: null };
+    return `Dropped the sorting session for criterion ${list.criteria?.find(c => c.id === id)?.name ?? id}`;
+  });
+}
+
+// Bring one stored list to the current schema. Nothing is written and `stored` is not
+// modified, so this doubles as a dry run.
+export function migrateTaskList(stored: unknown, now: number = Date.now()): ListMigrationResult {
+  const version = storedVersion(stored);
+  const quarantine = (issues: SchemaIssue[]): ListMigrationResult => ({
+    ok: false,
+    quarantined: {
+      id: isObject(stored) && typeof stored.id === 'string' ? stored.id : `unknown-${now}`,
+      name: isObject(stored) && typeof stored.name === 'string' ? stored.name : undefined,
+      version,
+      data: stored,
+      issues,
+      quarantinedAt: now,
+    },
+  });
+
+  if (!isObject(stored)) return quarantine([{ path: '', message: 'expected a list' }]);
+  if (version > CURRENT_VERSION) {
+    return quarantine([{ path: 'version', message: `saved by a newer version of the app (v${version})` }]);
+  }
+
+  // The v1 schema made no promises, so check the fields the first step relies on
+  if (!isObject(stored.tasks) || !Array.isArray(stored.taskOrder)) {
+    return quarantine(validateTaskListSchema(stored, version).filter(issue => !isSessionIssue(issue)));
+  }
+
+  let list: TaskList;
+  const applied: string[] = [];
+  try {
+    list = upgradeList(structuredClone(stored), version, applied);
+  } catch (error) {
+    return quarantine([{ path: '', message: (error as Error).message }]);
   }
 
-  // Ensure version is set
-  current.version = CURRENT_VERSION;
+  // Sessions that cannot be resumed are dropped rather than losing the list
+  let issues = validateTaskListSchema(list, CURRENT_VERSION);
+  const repairs: string[] = [];
+  if (issues.some(isSessionIssue)) {
+    repairs.push(...dropSessions(list, issues.filter(isSessionIssue)));
+    issues = validateTaskListSchema(list, CURRENT_VERSION);
+  }
+  if (issues.length > 0) return quarantine(issues);
+
+  const migration = applied.length > 0 || repairs.length > 0
+    ? { listId: list.id, name: list.name, fromVersion: version, toVersion: CURRENT_VERSION, steps: applied, repairs }
+    : null;
+
+  return { ok: true, list, migration };
+}
+
+export function emptyMigrationReport(): MigrationReport {
+  return { migrated: [], quarantined: [] };
+}
+
+export function mergeMigrationReports(a: MigrationReport, b: MigrationReport): MigrationReport {
+  return { migrated: [...a.migrated, ...b.migrated], quarantined: [...a.quarantined, ...b.quarantined] };
+}
+
+export function isEmptyMigrationReport(report: MigrationReport): boolean {
+  return report.migrated.length === 0 && report.quarantined.length === 0;
+}
+
+// Add one list's outcome to `report`, returning the list if it made it through
+export function recordMigration(report: MigrationReport, result: ListMigrationResult): TaskList | undefined {
+  if (!result.ok) {
+    report.quarantined.push(result.quarantined);
+    return undefined;
+  }
 
-  return current as TaskList;
+  if (result.migration) report.migrated.push(result.migration);
+  return result.list;
 }
 
-export function migrateAppState(state: any): AppState {
-  if (!state || typeof state !== 'object') {
+// Migrate a whole saved app (the old single-record format, or an import).
+// Lists that fail are left out of `lists` and listed in the report's quarantine.
+export function migrateAppState(state: unknown): AppState {
+  if (!isObject(state)) {
     return getDefaultAppState();
   }
 
-  // Migrate each list
-  const migratedLists: Record<string, TaskList> = {};
+  const lists: Record<string, TaskList> = {};
+  const report = emptyMigrationReport();
 
-  if (state.lists && typeof state.lists === 'object') {
-    for (const [id, list] of Object.entries(state.lists)) {
-      try {
-        migratedLists[id] = migrateTaskList(list);
-      } catch (error) {
-        console.error(`Failed to migrate list ${id}:`, error);
-        // Skip corrupted lists
-      }
-    }
+  if (isObject(state.lists)) {
+    Object.values(state.lists).forEach(stored => {
+      const list = recordMigration(report, migrateTaskList(stored));
+      if (list) lists[list.id] = list;
+    });
   }
 
+  const activeListId = typeof state.activeListId === 'string' && lists[state.activeListId] ? state.activeListId : null;
+
   return {
-    lists: migratedLists,
-    activeListId: state.activeListId || null,
+    lists,
+    activeListId,
     hydrated: true,
+    migrationReport: isEmptyMigrationReport(report) ? null : report,
   };
 }
 
+// What migrating `state` would do, without keeping the result
+export function previewMigration(state: unknown): MigrationReport {
+  return migrateAppState(state).migrationReport ?? emptyMigrationReport();
+}
+
 export function getDefaultAppState(): AppState {
   return {
     lists: {},
@@ -71,9 +312,6 @@ export function getCurrentVersion(): number {
   return CURRENT_VERSION;
 }
 
-export function validateTaskList(list: any): boolean {
-  if (!list || typeof list !== 'object') return false;
-
-  const required = ['id', 'name', 'taskOrder', 'tasks', 'createdAt', 'updatedAt'];
-  return required.every(field => field in list);
+export function validateTaskList(list: unknown): boolean {
+  return validateTaskListSchema(list, CURRENT_VERSION).length === 0;
 }
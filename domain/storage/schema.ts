@@ -0,0 +1,160 @@
+// Schema checks for stored lists, run after migration and before anything is written
+
+import type { SchemaIssue, SortingState } from '../types';
+import { validateState } from '../sortingEngine/registry';
+
+type Value = Record<string, unknown>;
+
+function isObject(value: unknown): value is Value {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Collects issues under a path prefix
+function checker(issues: SchemaIssue[], prefix: string) {
+  const at = (field: string) => (prefix ? `${prefix}.${field}` : field);
+
+  return {
+    fail: (field: string, message: string) => issues.push({ path: at(field), message }),
+    field: (value: Value, field: string, type: 'string' | 'number' | 'boolean', optional = false) => {
+      const present = value[field];
+      if (present === undefined && optional) return;
+      if (typeof present !== type) issues.push({ path: at(field), message: `expected ${type}` });
+    },
+    ids: (value: Value, field: string, optional = false) => {
+      const present = value[field];
+      if (present === undefined && optional) return;
+      if (!isStringArray(present)) issues.push({ path: at(field), message: 'expected a list of IDs' });
+    },
+  };
+}
+
+export function validateTask(task: unknown, path: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const check = checker(issues, path);
+  if (!isObject(task)) return [{ path, message: 'expected a task' }];
+
+  check.field(task, 'id', 'string');
+  check.field(task, 'title', 'string');
+  check.field(task, 'note', 'string', true);
+  check.ids(task, 'tags', true);
+  check.ids(task, 'blockedBy', true);
+  check.field(task, 'parentId', 'string', true);
+  check.field(task, 'done', 'boolean');
+  check.field(task, 'revision', 'number', true);
+  check.field(task, 'createdAt', 'number');
+  check.field(task, 'updatedAt', 'number');
+
+  return issues;
+}
+
+// Field types here; the engine checks its own cursor
+export function validateSortingState(sorting: unknown, path: string): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const check = checker(issues, path);
+  if (!isObject(sorting)) return [{ path, message: 'expected a sorting session' }];
+
+  check.field(sorting, 'algo', 'string');
+  check.field(sorting, 'comparisonsAsked', 'number');
+  check.field(sorting, 'comparisonsTotal', 'number');
+  if (!isObject(sorting.cache) || !Object.values(sorting.cache).every(r => r === -1 || r === 0 || r === 1)) {
+    check.fail('cache', 'expected answers of -1, 0 or 1');
+  }
+  if (sorting.internal !== null && !isObject(sorting.internal)) check.fail('internal', 'expected an object or null');
+
+  if (issues.length === 0 && !validateState(sorting as unknown as SortingState)) {
+    issues.push({ path, message: 'session cannot be resumed' });
+  }
+
+  return issues;
+}
+
+// Full check of a current-version list: field types, tasks, sessions, and that every
+// ranked ID refers to a task and is ranked only once
+export function validateTaskListSchema(list: unknown, version: number): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const check = checker(issues, '');
+  if (!isObject(list)) return [{ path: '', message: 'expected a list' }];
+
+  check.field(list, 'id', 'string');
+  check.field(list, 'name', 'string');
+  check.field(list, 'createdAt', 'number');
+  check.field(list, 'updatedAt', 'number');
+  check.field(list, 'archivedAt', 'number', true);
+  check.field(list, 'deletedAt', 'number', true);
+  if (list.version !== version) check.fail('version', `expected ${version}`);
+
+  if (!isObject(list.tasks)) {
+    check.fail('tasks', 'expected tasks by ID');
+    return issues;
+  }
+  const tasks = list.tasks;
+  Object.entries(tasks).forEach(([id, task]) => {
+    issues.push(...validateTask(task, `tasks.${id}`));
+    if (isObject(task) && task.id !== id) check.fail(`tasks.${id}.id`, 'does not match its key');
+  });
+
+  const ranked = new Set<string>();
+  const checkOrder = (order: unknown, path: string) => {
+    if (!isStringArray(order)) {
+      check.fail(path, 'expected a list of IDs');
+      return;
+    }
+    order.forEach(id => {
+      if (!tasks[id]) check.fail(path, `unknown task ${id}`);
+      else if (ranked.has(id)) check.fail(path, `task ${id} is ranked twice`);
+      ranked.add(id);
+    });
+  };
+
+  checkOrder(list.taskOrder, 'taskOrder');
+  if (list.childOrder !== undefined) {
+    if (!isObject(list.childOrder)) check.fail('childOrder', 'expected orders by parent ID');
+    else Object.entries(list.childOrder).forEach(([parentId, order]) => checkOrder(order, `childOrder.${parentId}`));
+  }
+
+  if (list.tiers !== undefined && !(Array.isArray(list.tiers) && list.tiers.every(isStringArray))) {
+    check.fail('tiers', 'expected groups of IDs');
+  }
+
+  if (list.sorting !== null) issues.push(...validateSortingState(list.sorting, 'sorting'));
+  if (list.childSorting !== undefined) {
+    if (!isObject(list.childSorting)) check.fail('childSorting', 'expected sessions by parent ID');
+    else Object.entries(list.childSorting).forEach(([parentId, sorting]) => {
+      if (sorting !== null) issues.push(...validateSortingState(sorting, `childSorting.${parentId}`));
+    });
+  }
+
+  if (list.criterionRankings !== undefined) {
+    if (!isObject(list.criterionRankings)) check.fail('criterionRankings', 'expected rankings by criterion ID');
+    else Object.entries(list.criterionRankings).forEach(([criterionId, ranking]) => {
+      const path = `criterionRankings.${criterionId}`;
+      if (!isObject(ranking)) return check.fail(path, 'expected a ranking');
+      if (!isStringArray(ranking.taskOrder)) check.fail(`${path}.taskOrder`, 'expected a list of IDs');
+      if (ranking.sorting !== null) issues.push(...validateSortingState(ranking.sorting, `${path}.sorting`));
+    });
+  }
+
+  if (list.criteria !== undefined && !Array.isArray(list.criteria)) check.fail('criteria', 'expected a list');
+  if (list.participants !== undefined && !Array.isArray(list.participants)) check.fail('participants', 'expected a list');
+
+  if (list.trash !== undefined) {
+    if (!Array.isArray(list.trash)) check.fail('trash', 'expected a list');
+    else list.trash.forEach((entry: unknown, i) => {
+      if (!isObject(entry)) return check.fail(`trash.${i}`, 'expected a trashed task');
+      issues.push(...validateTask(entry.task, `trash.${i}.task`));
+      if (typeof entry.index !== 'number') check.fail(`trash.${i}.index`, 'expected number');
+      if (typeof entry.deletedAt !== 'number') check.fail(`trash.${i}.deletedAt`, 'expected number');
+    });
+  }
+
+  return issues;
+}
+
+// Sessions are the one part of a list that can be dropped without losing tasks
+export function isSessionIssue(issue: SchemaIssue): boolean {
+  return /^(sorting|childSorting\.[^.]+|criterionRankings\.[^.]+\.sorting)(\.|$)/.test(issue.path);
+}
@@ -0,0 +1,91 @@
+// Cross-tab coordination: each tab announces the lists it saved, and other tabs take
+// those changes unless they have unsaved edits to the same list, which is a conflict.
+// Uses BroadcastChannel, or storage events where that is missing.
+
+import type { ListConflict, ListId, ListSummary, TaskList } from '../types';
+
+const CHANNEL_NAME = 'prioritiser:sync';
+// localStorage key messages are relayed through without BroadcastChannel
+const FALLBACK_KEY = 'prioritiser:sync:message';
+
+export interface SyncMessage {
+  tabId: string;
+  changed: ListSummary[];   // lists written, as they now are in storage
+  removed: ListId[];        // lists deleted from storage
+  sentAt: number;
+}
+
+export interface TabChannel {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+// Null outside the browser
+export function openTabChannel(onMessage: (message: SyncMessage) => void): TabChannel | null {
+  if (typeof window === 'undefined') return null;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = event => onMessage(event.data as SyncMessage);
+
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  // Storage events fire in every other tab of the origin when the value changes
+  const listener = (event: StorageEvent) => {
+    if (event.key !== FALLBACK_KEY || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue) as SyncMessage);
+    } catch (error) {
+      console.error('Ignoring malformed sync message:', error);
+    }
+  };
+  window.addEventListener('storage', listener);
+
+  return {
+    post: message => {
+      try {
+        localStorage.setItem(FALLBACK_KEY, JSON.stringify(message));
+      } catch (error) {
+        console.error('Failed to send sync message:', error);
+      }
+    },
+    close: () => window.removeEventListener('storage', listener),
+  };
+}
+
+// Comparisons answered in a list's sessions, top level and subtasks
+function answered(list: TaskList | null | undefined): number {
+  if (!list) return 0;
+
+  const sessions = [list.sorting, ...Object.values(list.childSorting ?? {})];
+  return sessions.reduce((sum, sorting) => sum + (sorting?.comparisonsAsked ?? 0), 0);
+}
+
+// 'sorting' when both versions answered comparisons since the version they share
+export function conflictKind(
+  base: TaskList | undefined,
+  local: TaskList,
+  remote: TaskList | null
+): ListConflict['kind'] {
+  const before = answered(base);
+  return answered(local) > before && answered(remote) > before ? 'sorting' : 'list';
+}
+
+// How to take another tab's version of a list this tab has loaded. `base` is the version
+// this tab last loaded or saved; anything else in `local` is an unsaved edit.
+export function reconcileRemoteList(
+  base: TaskList | undefined,
+  local: TaskList,
+  remote: TaskList | null,
+  now: number = Date.now()
+): 'apply' | 'skip' | ListConflict {
+  // Already the same version, e.g. the other tab resolved a conflict in this tab's favour
+  if (remote && remote.updatedAt === local.updatedAt) return 'skip';
+  if (local === base) return 'apply';
+
+  return { listId: local.id, kind: conflictKind(base, local, remote), remote, detectedAt: now };
+}
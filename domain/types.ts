@@ -2,13 +2,18 @@
 
 export type TaskId = string;
 export type ListId = string;
+export type CriterionId = string;
+export type ParticipantId = string;
 
 export interface Task {
   id: TaskId;
   title: string;            // short label
   note?: string;            // optional longer text
   tags?: string[];
+  blockedBy?: TaskId[];     // tasks that must rank above this one
+  parentId?: TaskId;        // set for subtasks; ranked only among their siblings
   done: boolean;
+  revision?: number;        // bumped when title or note change; comparisons record it
   createdAt: number;        // epoch ms
   updatedAt: number;        // epoch ms
 }
@@ -16,29 +21,134 @@ export interface Task {
 export interface TaskList {
   id: ListId;
   name: string;
-  taskOrder: TaskId[];      // final ranked order (top = highest priority)
+  taskOrder: TaskId[];      // final ranked order of top-level tasks (top = highest priority)
   tasks: Record<TaskId, Task>;
   sorting: SortingState | null; // active pairwise session state
+  tiers?: TaskId[][];       // equal-priority groups within taskOrder, top tier first
+  childOrder?: Record<TaskId, TaskId[]>;          // parent -> ranked subtasks
+  childSorting?: Record<TaskId, SortingState | null>; // parent -> session ranking its subtasks
+  comparisonPolicy?: ComparisonPolicy;
+  criteria?: Criterion[];   // optional named criteria, combined into taskOrder by weight
+  criterionRankings?: Record<CriterionId, CriterionRanking>;
+  participants?: ParticipantSet[]; // other people's rankings of this list, for a group order
+  trash?: TrashedTask[];    // deleted tasks, restorable until purged
+  archivedAt?: number;      // epoch ms; archived lists are hidden from the switcher
+  deletedAt?: number;       // epoch ms; set while the list itself is in the trash
   createdAt: number;
   updatedAt: number;
-  version: 1;               // schema version for migrations
+  version: 2;               // schema version, see storage/migrations.ts
+}
+
+// A deleted task kept for restoring
+export interface TrashedTask {
+  task: Task;
+  index: number;            // position in taskOrder when deleted
+  blocks?: TaskId[];        // tasks it blocked, blocked again on restore
+  descendantBlocks?: Record<TaskId, TaskId[]>; // same for each subtask trashed with it
+  descendants?: Task[];     // subtasks trashed along with it
+  deletedAt: number;        // epoch ms
+}
+
+// Available sorting strategies
+export type SortAlgo = 'merge' | 'insertion' | 'tournament' | 'bradley-terry';
+
+// A dimension to rank by separately, e.g. impact or effort
+export interface Criterion {
+  id: CriterionId;
+  name: string;
+  weight: number;           // relative weight in the combined order (>= 0)
+  inverted?: boolean;       // ranking top counts against priority (e.g. "most effort")
+}
+
+// Ranking by one criterion, with its own comparison cache in `sorting`
+export interface CriterionRanking {
+  taskOrder: TaskId[];      // top = most of this criterion
+  sorting: SortingState | null;
+}
+
+// One person's answers and ranking for a shared list
+export interface ParticipantSet {
+  id: ParticipantId;
+  name: string;
+  taskOrder: TaskId[];
+  cache: Record<string, -1 | 0 | 1>;
+  importedAt?: number;      // set when the set came from someone else's file
+  updatedAt: number;
+}
+
+// How cached answers age as tasks change
+export interface ComparisonPolicy {
+  onEdit: 'invalidate' | 'flag';  // drop answers about an edited task, or keep them marked stale
+  maxAgeDays?: number;            // answers older than this are asked again
 }
 
 // Stores the "human-comparator sort" in progress
 export interface SortingState {
-  algo: 'merge' | 'insertion';         // strategy
+  algo: SortAlgo;                      // strategy
   comparisonsAsked: number;
   comparisonsTotal: number;            // estimated total for progress
   cache: Record<string, -1 | 0 | 1>;   // key `${a}|${b}` -> result
   // Internal cursor for the algorithm (e.g., merge sort stacks)
-  internal: MergeSortState | null;
+  internal: SortInternal | null;
+  history?: ComparisonHistory;         // answer log for undo/redo
+  cacheMeta?: Record<string, ComparisonMeta>; // same keys as cache
+  seeded?: Record<string, -1 | 0 | 1 | null>; // dependency answers in cache -> what they replaced (null: nothing)
+  scope?: SortScope;                   // set when only part of the list is being re-ranked
+  taskIds?: TaskId[];                  // tasks the session ranks
+  settings?: SortSettings;             // strategy settings, reused when the session restarts
+  pending?: { a: TaskId; b: TaskId };  // pair currently shown, if any
+  pausedAt?: number;                   // epoch ms; no pair is shown while paused
+}
+
+// Strategy-specific settings a session is created with
+export interface SortSettings {
+  baseOrder?: TaskId[];     // insertion: fixed ranking to slot new tasks into
+  topK?: number;            // tournament: stop once this many top tasks are ordered
+  confidence?: number;      // bradley-terry: target average probability neighbours are ordered right
+  maxComparisons?: number;  // bradley-terry: hard stop regardless of confidence
+}
+
+// Which part of a list a session re-ranks; the rest keeps its positions
+export type SortScope =
+  | { kind: 'tag'; tag: string }
+  | { kind: 'range'; start: number; end: number }  // taskOrder positions, end exclusive
+  | { kind: 'manual'; taskIds: TaskId[] };
+
+// When an answer was given and which task revisions it was about
+export interface ComparisonMeta {
+  answeredAt: number;                  // epoch ms
+  revisions: [number, number];         // revisions of the two tasks, in cache-key order
+  stale?: boolean;                     // a task changed since; worth asking again
 }
 
+// A single answered comparison
+export interface ComparisonLogEntry {
+  a: TaskId;
+  b: TaskId;
+  result: -1 | 0 | 1;
+}
+
+// Answers since the session started; undo replays the log from `base`
+export interface ComparisonHistory {
+  base: {
+    internal: SortInternal | null;
+    cache: Record<string, -1 | 0 | 1>;
+    comparisonsAsked: number;
+  };
+  log: ComparisonLogEntry[];           // answers applied on top of base, oldest first
+  redo: ComparisonLogEntry[];          // undone answers, next to redo last
+}
+
+// Engine cursors, tagged with the algo that owns them
+export type SortInternal = MergeSortState | InsertionSortState | TournamentState | BradleyTerryState;
+
 // Internal state for merge sort algorithm
 export interface MergeSortState {
+  kind: 'merge';
   runs: TaskId[][];         // current runs being merged
   stack: MergeFrame[];      // merge stack
   result: TaskId[];         // accumulated sorted result
+  groups?: Record<TaskId, TaskId[]>; // tie groups: representative -> tasks tied with it
 }
 
 export interface MergeFrame {
@@ -49,11 +159,94 @@ export interface MergeFrame {
   merged: TaskId[];
 }
 
+// Internal state for binary insertion into an existing ranking
+export interface InsertionSortState {
+  kind: 'insertion';
+  sorted: TaskId[];         // fixed ranking new tasks are slotted into
+  pending: TaskId[];        // tasks still waiting to be inserted
+  frame: InsertionFrame | null; // binary search in progress
+}
+
+export interface InsertionFrame {
+  taskId: TaskId;           // task being inserted
+  lo: number;               // search window start (inclusive)
+  hi: number;               // search window end (exclusive)
+}
+
+// Internal state for a top-K knockout tournament (partial sort)
+export interface TournamentState {
+  kind: 'tournament';
+  k: number;                // how many top tasks to rank
+  leaves: (TaskId | null)[]; // bracket slots; null for padding or once a task is ranked
+  ranked: TaskId[];         // top tasks found so far, highest first
+}
+
+// Internal state for the statistical (Bradley–Terry) engine; scores are refitted from the cache
+export interface BradleyTerryState {
+  kind: 'bradley-terry';
+  taskIds: TaskId[];
+  confidence: number;       // stop once neighbours are, on average, ordered right with this probability
+  maxComparisons: number;   // hard stop
+}
+
+// What storage keeps about a list besides the list itself, enough to show it unloaded
+export interface ListSummary {
+  id: ListId;
+  name: string;
+  taskCount: number;
+  createdAt: number;
+  updatedAt: number;
+  archivedAt?: number;
+  deletedAt?: number;
+}
+
+// Another tab saved a list this tab has unsaved edits to; the list is not saved until resolved
+export interface ListConflict {
+  listId: ListId;
+  kind: 'list' | 'sorting'; // 'sorting': both tabs answered comparisons in the same list
+  remote: TaskList | null;  // the other tab's version; null if it deleted the list
+  detectedAt: number;
+}
+
+// A place where stored data does not match the schema, e.g. "tasks.t1.done"
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// A stored list that could not be migrated, kept as found so it can be recovered later
+export interface QuarantinedList {
+  id: string;               // the list's ID if it had a usable one
+  name?: string;
+  version: number;          // schema version it was stored with
+  data: unknown;            // the list as stored
+  issues: SchemaIssue[];
+  quarantinedAt: number;
+}
+
+// What happened to one list on its way to the current schema
+export interface ListMigration {
+  listId: ListId;
+  name: string;
+  fromVersion: number;
+  toVersion: number;
+  steps: string[];          // descriptions of the migration steps applied
+  repairs: string[];        // data dropped to make the list valid, e.g. unresumable sessions
+}
+
+export interface MigrationReport {
+  migrated: ListMigration[]; // lists that needed steps or repairs
+  quarantined: QuarantinedList[];
+}
+
 // Global app state
 export interface AppState {
-  lists: Record<ListId, TaskList>;
+  lists: Record<ListId, TaskList>;  // lists in memory
   activeListId: ListId | null;
   hydrated: boolean;        // whether state has been loaded from storage
+  unloadedLists?: Record<ListId, ListSummary>; // lists still only in storage, loaded when opened
+  conflicts?: Record<ListId, ListConflict>;
+  migrationReport?: MigrationReport | null; // shown once after loading upgraded or broken lists
 }
 
 // Comparison result type
@@ -0,0 +1,189 @@
+// Bulk-add: turn pasted notes, checklists and emails into tasks
+// Understands plain lines, "- [ ]" / "- [x]" checklists, inline #tags, indented notes
+// and nested bullets (which become subtasks)
+
+import type { Task, TaskId, TaskList } from '../types';
+import { generateTaskId } from './uuid';
+import { levelOrder, rollUpCompletion } from './hierarchy';
+import { normaliseTags } from './tags';
+
+export interface ParsedTask {
+  title: string;
+  note?: string;
+  tags: string[];
+  done: boolean;
+  children: ParsedTask[];
+  duplicateOf?: TaskId;     // existing task with the same title (set by previewBulkAdd)
+  duplicateInPaste?: boolean; // same title appears earlier in the paste
+}
+
+export interface BulkPreview {
+  tasks: ParsedTask[];
+  total: number;            // tasks including nested ones
+  duplicates: number;
+}
+
+export interface BulkAddOptions {
+  parentId?: TaskId;        // add everything under this task instead of the top level
+  skipDuplicates?: boolean; // leave out flagged items (and their children)
+}
+
+const TAB_WIDTH = 4;
+const BULLET = /^(?:[-*+•]|\d+[.)])\s+/;
+const CHECKBOX = /^\[([ xX])\]\s*/;
+const TAG = /(^|\s)#([\p{L}\p{N}_-]*\p{L}[\p{L}\p{N}_-]*)/gu;
+
+function indentOf(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width++;
+    else if (char === '\t') width += TAB_WIDTH;
+    else break;
+  }
+  return width;
+}
+
+// Split inline #tags out of a title
+function extractTags(text: string): { title: string; tags: string[] } {
+  const tags: string[] = [];
+  const title = text
+    .replace(TAG, (_, space: string, tag: string) => {
+      tags.push(tag);
+      return space;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { title, tags: normaliseTags(tags) };
+}
+
+// Parse pasted text into a tree of tasks
+export function parseBulkText(text: string): ParsedTask[] {
+  const roots: ParsedTask[] = [];
+  // Open items by indent, innermost last
+  const stack: { indent: number; task: ParsedTask }[] = [];
+
+  text.split(/\r?\n/).forEach(raw => {
+    // Email quoting and Markdown headings carry no meaning here
+    const line = raw.replace(/^(\s*>)+\s?/, '').replace(/^\s*#{1,6}\s+/, '');
+    if (!line.trim()) return;
+
+    const indent = indentOf(line);
+    let content = line.trim();
+    const isBullet = BULLET.test(content);
+    content = content.replace(BULLET, '');
+
+    const checkbox = content.match(CHECKBOX);
+    content = content.replace(CHECKBOX, '');
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const parent = stack[stack.length - 1]?.task;
+
+    // Indented text that is not a list item continues the previous item as a note
+    if (parent && !isBullet && !checkbox) {
+      parent.note = parent.note ? `${parent.note}\n${content}` : content;
+      return;
+    }
+
+    const { title, tags } = extractTags(content);
+    if (!title) return;
+
+    const task: ParsedTask = {
+      title,
+      tags,
+      done: checkbox ? checkbox[1] !== ' ' : false,
+      children: [],
+    };
+
+    if (parent) parent.children.push(task);
+    else roots.push(task);
+    stack.push({ indent, task });
+  });
+
+  return roots;
+}
+
+function titleKey(title: string): string {
+  return title.toLowerCase().replace(/[\s.,;:!?]+/g, ' ').trim();
+}
+
+function countTasks(tasks: ParsedTask[]): number {
+  return tasks.reduce((sum, task) => sum + 1 + countTasks(task.children), 0);
+}
+
+// Parse and flag items that look like tasks already in the list, or repeat earlier lines
+export function previewBulkAdd(text: string, list: TaskList): BulkPreview {
+  const existing = new Map<string, TaskId>();
+  Object.values(list.tasks).forEach(task => existing.set(titleKey(task.title), task.id));
+
+  const seen = new Set<string>();
+  let duplicates = 0;
+
+  const flag = (tasks: ParsedTask[]): ParsedTask[] =>
+    tasks.map(task => {
+      const key = titleKey(task.title);
+      const duplicateOf = existing.get(key);
+      const duplicateInPaste = seen.has(key);
+      seen.add(key);
+      if (duplicateOf || duplicateInPaste) duplicates++;
+
+      return {
+        ...task,
+        duplicateOf,
+        duplicateInPaste: duplicateInPaste || undefined,
+        children: flag(task.children),
+      };
+    });
+
+  const tasks = flag(parseBulkText(text));
+  return { tasks, total: countTasks(tasks), duplicates };
+}
+
+// Add parsed tasks to a list; returns the new list and the IDs created, top-down
+export function addParsedTasks(
+  list: TaskList,
+  parsed: ParsedTask[],
+  options: BulkAddOptions = {}
+): { list: TaskList; taskIds: TaskId[] } {
+  const now = Date.now();
+  const tasks = { ...list.tasks };
+  const childOrder = { ...list.childOrder };
+  const taskIds: TaskId[] = [];
+
+  const add = (items: ParsedTask[], parentId: TaskId | undefined): TaskId[] =>
+    items
+      .filter(item => !options.skipDuplicates || (!item.duplicateOf && !item.duplicateInPaste))
+      .map(item => {
+        const id = generateTaskId();
+        const task: Task = {
+          id,
+          title: item.title,
+          note: item.note,
+          tags: item.tags.length > 0 ? item.tags : undefined,
+          parentId,
+          done: item.done,
+          createdAt: now,
+          updatedAt: now,
+        };
+        tasks[id] = task;
+        taskIds.push(id);
+
+        // Parents are done exactly when their subtasks are
+        const children = add(item.children, id);
+        if (children.length > 0) {
+          childOrder[id] = children;
+          tasks[id] = { ...task, done: children.every(child => tasks[child].done) };
+        }
+        return id;
+      });
+
+  const parentId = options.parentId !== undefined && list.tasks[options.parentId] ? options.parentId : undefined;
+  const added = add(parsed, parentId);
+  if (added.length === 0) return { list, taskIds };
+
+  const updated: TaskList = parentId === undefined
+    ? { ...list, tasks, childOrder, taskOrder: [...list.taskOrder, ...added] }
+    : { ...list, tasks, childOrder: { ...childOrder, [parentId]: [...levelOrder(list, parentId), ...added] } };
+
+  return { list: { ...rollUpCompletion(updated, added[0]), updatedAt: now }, taskIds };
+}
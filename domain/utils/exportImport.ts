@@ -0,0 +1,466 @@
+// Getting lists in and out of the browser: versioned JSON (complete, including answers
+// and sessions in progress), CSV, a ranked Markdown checklist and todo.txt.
+// Imports of every format go through migrateAppState before they reach the store.
+
+import type { ListId, ListSummary, MigrationReport, Task, TaskId, TaskList } from '../types';
+import { emptyMigrationReport, getCurrentVersion, migrateAppState } from '../storage/migrations';
+import { addParsedTasks, parseBulkText, type ParsedTask } from './bulkAdd';
+import { levelOrder } from './hierarchy';
+import { normaliseTags } from './tags';
+import { generateListId } from './uuid';
+
+export const EXPORT_FILE_FORMAT = 'prioritiser/export';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'todotxt';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  markdown: 'md',
+  todotxt: 'txt',
+};
+
+export interface ExportFile {
+  format: typeof EXPORT_FILE_FORMAT;
+  version: 1;
+  schemaVersion: number;    // TaskList schema the lists were saved with
+  exportedAt: number;
+  activeListId: ListId | null;
+  lists: Record<ListId, TaskList>;
+}
+
+// A task with its rank among its siblings, e.g. "2.1" for the first subtask of the second task
+interface RankedTask {
+  task: Task;
+  rank: string;
+  depth: number;
+}
+
+function rankedTasks(list: TaskList, parentId?: TaskId, prefix = '', depth = 0): RankedTask[] {
+  return levelOrder(list, parentId)
+    .filter(id => list.tasks[id])
+    .flatMap((id, i) => {
+      const rank = `${prefix}${i + 1}`;
+      return [{ task: list.tasks[id], rank, depth }, ...rankedTasks(list, id, `${rank}.`, depth + 1)];
+    });
+}
+
+// Export
+
+export function exportJson(lists: TaskList[], activeListId: ListId | null = null): string {
+  const file: ExportFile = {
+    format: EXPORT_FILE_FORMAT,
+    version: 1,
+    schemaVersion: getCurrentVersion(),
+    exportedAt: Date.now(),
+    activeListId,
+    lists: Object.fromEntries(lists.map(list => [list.id, list])),
+  };
+
+  return JSON.stringify(file, null, 2);
+}
+
+const CSV_COLUMNS = ['list', 'rank', 'title', 'done', 'tags', 'note'];
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function exportCsv(lists: TaskList[]): string {
+  const rows = lists.flatMap(list =>
+    rankedTasks(list).map(({ task, rank }) => [
+      list.name,
+      rank,
+      task.title,
+      task.done ? 'yes' : 'no',
+      (task.tags ?? []).join(' '),
+      task.note ?? '',
+    ])
+  );
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function exportMarkdown(lists: TaskList[]): string {
+  return lists
+    .map(list => {
+      const lines = rankedTasks(list).flatMap(({ task, rank, depth }) => {
+        const indent = '   '.repeat(depth);
+        const tags = (task.tags ?? []).map(tag => ` #${tag}`).join('');
+        const number = rank.split('.').pop();
+        const note = task.note ? task.note.split('\n').map(line => `${indent}   ${line}`) : [];
+        return [`${indent}${number}. [${task.done ? 'x' : ' '}] ${task.title}${tags}`, ...note];
+      });
+      return [`# ${list.name}`, '', ...lines].join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+function todoDate(epochMs: number): string {
+  return new Date(epochMs).toISOString().slice(0, 10);
+}
+
+// todo.txt tokens cannot contain spaces
+function todoToken(text: string): string {
+  return text.trim().replace(/\s+/g, '_');
+}
+
+// Top-level tasks get priorities A-Z by rank; everything keeps its exact rank in rank:
+export function exportTodoTxt(lists: TaskList[]): string {
+  return lists
+    .flatMap(list =>
+      rankedTasks(list).map(({ task, rank, depth }) => {
+        const position = Number(rank);
+        const priority = depth === 0 && !task.done && position <= 26 ? `(${String.fromCharCode(64 + position)}) ` : '';
+        const done = task.done ? `x ${todoDate(task.updatedAt)} ` : '';
+        const tags = (task.tags ?? []).map(tag => ` @${tag}`).join('');
+        return `${done}${priority}${todoDate(task.createdAt)} ${task.title}${tags} +${todoToken(list.name)} rank:${rank}`;
+      })
+    )
+    .join('\n') + '\n';
+}
+
+export function exportLists(lists: TaskList[], format: ExportFormat, activeListId: ListId | null = null): string {
+  switch (format) {
+    case 'json':
+      return exportJson(lists, activeListId);
+    case 'csv':
+      return exportCsv(lists);
+    case 'markdown':
+      return exportMarkdown(lists);
+    case 'todotxt':
+      return exportTodoTxt(lists);
+  }
+}
+
+// Import
+
+export interface ImportedListPreview {
+  listId: ListId;
+  name: string;
+  taskCount: number;
+  matches?: ListId;         // existing list it would merge into
+}
+
+export interface ImportPreview {
+  format: ExportFormat;
+  lists: TaskList[];        // migrated and ready for the store
+  activeListId: ListId | null;
+  summary: ImportedListPreview[];
+  report: MigrationReport;  // lists upgraded or quarantined on the way in
+}
+
+export function detectFormat(text: string, fileName?: string): ExportFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  const byExtension = (Object.keys(EXPORT_EXTENSIONS) as ExportFormat[]).find(
+    format => EXPORT_EXTENSIONS[format] === extension
+  );
+  if (byExtension && byExtension !== 'todotxt') return byExtension;
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) return 'json';
+
+  const header = trimmed.split(/\r?\n/, 1)[0].toLowerCase();
+  if (header.includes(',') && header.split(',').includes('title')) return 'csv';
+  if (/^(#|\s*([-*+]|\d+[.)])\s)/m.test(trimmed) && !/ rank:\S/.test(trimmed)) return 'markdown';
+
+  return 'todotxt';
+}
+
+// Split "2.10.1" into numbers so ranks sort numerically
+function rankKey(rank: string): number[] {
+  return rank.split('.').map(part => Number(part) || 0);
+}
+
+function compareRanks(a: string, b: string): number {
+  const x = rankKey(a);
+  const y = rankKey(b);
+  for (let i = 0; i < Math.max(x.length, y.length); i++) {
+    const diff = (x[i] ?? -1) - (y[i] ?? -1);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Rebuild trees from ranked rows; rows with no usable rank go last at the top level
+function treeFromRanks(rows: { rank?: string; task: ParsedTask }[]): ParsedTask[] {
+  const roots: ParsedTask[] = [];
+  const byRank = new Map<string, ParsedTask>();
+  const ranked = rows.filter(row => row.rank && /^\d+(\.\d+)*$/.test(row.rank));
+  const unranked = rows.filter(row => !ranked.includes(row));
+
+  [...ranked].sort((a, b) => compareRanks(a.rank!, b.rank!)).forEach(({ rank, task }) => {
+    byRank.set(rank!, task);
+    const parent = byRank.get(rank!.split('.').slice(0, -1).join('.'));
+    if (parent) parent.children.push(task);
+    else roots.push(task);
+  });
+  unranked.forEach(({ task }) => roots.push(task));
+
+  return roots;
+}
+
+// Group rows by list name, keeping first-seen order
+function groupByList<T>(rows: T[], listOf: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => groups.set(listOf(row), [...(groups.get(listOf(row)) ?? []), row]));
+  return groups;
+}
+
+const DEFAULT_LIST_NAME = 'Imported';
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+function listsFromCsv(text: string): Map<string, ParsedTask[]> {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  const column = (row: string[], name: string) => row[columns.indexOf(name)]?.trim() ?? '';
+  if (!columns.includes('title')) throw new Error('CSV file needs a title column');
+
+  const tasks = rows
+    .filter(row => column(row, 'title'))
+    .map(row => ({
+      list: column(row, 'list') || DEFAULT_LIST_NAME,
+      rank: column(row, 'rank'),
+      task: {
+        title: column(row, 'title'),
+        note: column(row, 'note') || undefined,
+        tags: normaliseTags(column(row, 'tags').split(/[\s;]+/)),
+        done: ['yes', 'true', 'x', '1', 'done'].includes(column(row, 'done').toLowerCase()),
+        children: [],
+      } as ParsedTask,
+    }));
+
+  const lists = new Map<string, ParsedTask[]>();
+  groupByList(tasks, row => row.list).forEach((rows, name) => lists.set(name, treeFromRanks(rows)));
+  return lists;
+}
+
+function listsFromMarkdown(text: string): Map<string, ParsedTask[]> {
+  const sections: { name: string; lines: string[] }[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) sections.push({ name: heading[1].trim(), lines: [] });
+    else if (sections.length > 0) sections[sections.length - 1].lines.push(line);
+    else sections.push({ name: DEFAULT_LIST_NAME, lines: [line] });
+  });
+
+  const lists = new Map<string, ParsedTask[]>();
+  sections.forEach(({ name, lines }) => {
+    const tasks = parseBulkText(lines.join('\n'));
+    if (tasks.length > 0) lists.set(name, [...(lists.get(name) ?? []), ...tasks]);
+  });
+  return lists;
+}
+
+const TODO_DATE = /^\d{4}-\d{2}-\d{2}\s+/;
+
+function listsFromTodoTxt(text: string): Map<string, ParsedTask[]> {
+  const tasks = text
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map((line, i) => {
+      let rest = line.trim();
+      const done = /^x\s/.test(rest);
+      if (done) rest = rest.slice(2).replace(TODO_DATE, '');
+
+      const priority = rest.match(/^\(([A-Z])\)\s+/);
+      if (priority) rest = rest.slice(priority[0].length);
+      rest = rest.replace(TODO_DATE, '');
+
+      const tokens = rest.split(/\s+/);
+      const project = tokens.find(token => /^\+\S/.test(token))?.slice(1).replace(/_/g, ' ');
+      const rank = tokens.find(token => token.startsWith('rank:'))?.slice('rank:'.length);
+      const tags = tokens.filter(token => /^@\S/.test(token)).map(token => token.slice(1));
+      const title = tokens.filter(token => !/^[+@]\S/.test(token) && !/^[A-Za-z][\w-]*:[^\s/]+$/.test(token)).join(' ');
+
+      return {
+        list: project || DEFAULT_LIST_NAME,
+        // Without a rank, priority then file order decides
+        rank,
+        order: [priority ? priority[1].charCodeAt(0) : 91, i] as const,
+        task: { title, tags: normaliseTags(tags), done, children: [] } as ParsedTask,
+      };
+    })
+    .filter(row => row.task.title);
+
+  const lists = new Map<string, ParsedTask[]>();
+  groupByList(tasks, row => row.list).forEach((rows, name) => {
+    const sorted = [...rows].sort((a, b) => a.order[0] - b.order[0] || a.order[1] - b.order[1]);
+    lists.set(name, treeFromRanks(sorted));
+  });
+  return lists;
+}
+
+function parseJson(text: string): { lists: unknown; activeListId: unknown } {
+  let file: Partial<ExportFile> & { lists?: unknown; activeListId?: unknown };
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Import file is not valid JSON');
+  }
+
+  if (!file || typeof file !== 'object') throw new Error('Not a prioritiser export');
+  // Saves from before the export format are the bare app state
+  if (file.format !== undefined && file.format !== EXPORT_FILE_FORMAT) throw new Error('Not a prioritiser export');
+  if (file.format !== undefined && file.version !== 1) {
+    throw new Error(`Unsupported export file version: ${file.version}`);
+  }
+  if (!file.lists || typeof file.lists !== 'object') throw new Error('Export file has no lists');
+
+  return { lists: file.lists, activeListId: file.activeListId };
+}
+
+function listFromParsed(name: string, tasks: ParsedTask[], now: number): TaskList {
+  const empty: TaskList = {
+    id: generateListId(),
+    name,
+    taskOrder: [],
+    tasks: {},
+    sorting: null,
+    createdAt: now,
+    updatedAt: now,
+    version: 2,
+  };
+  return addParsedTasks(empty, tasks).list;
+}
+
+// Parse a file and show what importing it would add. JSON lists keep their IDs; lists
+// from the other formats merge into an existing list of the same name.
+// Throws an Error when the file cannot be read at all.
+export function previewImport(
+  text: string,
+  existing: ListSummary[],
+  options: { format?: ExportFormat; fileName?: string } = {}
+): ImportPreview {
+  const format = options.format ?? detectFormat(text, options.fileName);
+  const now = Date.now();
+
+  let raw: { lists: unknown; activeListId: unknown };
+  if (format === 'json') {
+    raw = parseJson(text);
+  } else {
+    const parsed = format === 'csv' ? listsFromCsv(text) : format === 'markdown' ? listsFromMarkdown(text) : listsFromTodoTxt(text);
+    const byName = new Map(existing.map(summary => [summary.name.trim().toLowerCase(), summary.id]));
+
+    const lists: Record<ListId, TaskList> = {};
+    parsed.forEach((tasks, name) => {
+      const list = listFromParsed(name, tasks, now);
+      const id = byName.get(name.trim().toLowerCase()) ?? list.id;
+      lists[id] = { ...list, id };
+    });
+    raw = { lists, activeListId: null };
+  }
+
+  const migrated = migrateAppState(raw);
+  const lists = Object.values(migrated.lists);
+  const existingIds = new Set(existing.map(summary => summary.id));
+
+  return {
+    format,
+    lists,
+    activeListId: migrated.activeListId,
+    summary: lists.map(list => ({
+      listId: list.id,
+      name: list.name,
+      taskCount: Object.keys(list.tasks).length,
+      matches: existingIds.has(list.id) ? list.id : undefined,
+    })),
+    report: migrated.migrationReport ?? emptyMigrationReport(),
+  };
+}
+
+function normaliseTitle(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+// Merge an imported copy into a list: tasks match by ID, then by title among their
+// siblings. Matched tasks keep whichever side was edited last, but always the local ID,
+// parent and blockers; new tasks go after the existing ones at their level. The list's
+// own order and sessions stay as they are.
+export function mergeImportedList(local: TaskList, imported: TaskList): TaskList {
+  const now = Date.now();
+  const tasks = { ...local.tasks };
+  const childOrder = { ...local.childOrder };
+  let taskOrder = local.taskOrder;
+  // Imported ID -> local ID
+  const mapping = new Map<TaskId, TaskId>();
+
+  const mergeLevel = (importedParent: TaskId | undefined, localParent: TaskId | undefined) => {
+    const siblings = () => (localParent === undefined ? taskOrder : childOrder[localParent] ?? []);
+
+    levelOrder(imported, importedParent)
+      .filter(id => imported.tasks[id])
+      .forEach(id => {
+        const incoming = imported.tasks[id];
+        const byTitle = siblings().find(s => tasks[s] && normaliseTitle(tasks[s].title) === normaliseTitle(incoming.title));
+        const match = tasks[id] ? id : byTitle;
+
+        if (match) {
+          if (incoming.updatedAt > tasks[match].updatedAt) {
+            tasks[match] = { ...incoming, id: match, parentId: tasks[match].parentId, blockedBy: tasks[match].blockedBy };
+          }
+          mapping.set(id, match);
+        } else {
+          tasks[id] = { ...incoming, parentId: localParent, blockedBy: undefined };
+          mapping.set(id, id);
+          if (localParent === undefined) taskOrder = [...taskOrder, id];
+          else childOrder[localParent] = [...(childOrder[localParent] ?? []), id];
+        }
+
+        mergeLevel(id, mapping.get(id));
+      });
+  };
+  mergeLevel(undefined, undefined);
+
+  // Dependencies between tasks that came in together
+  Object.values(imported.tasks).forEach(task => {
+    const id = mapping.get(task.id);
+    if (!id || id !== task.id || local.tasks[id] || !task.blockedBy) return;
+    const blockedBy = task.blockedBy.map(b => mapping.get(b)).filter((b): b is TaskId => b !== undefined);
+    if (blockedBy.length > 0) tasks[id] = { ...tasks[id], blockedBy };
+  });
+
+  return {
+    ...local,
+    tasks,
+    taskOrder,
+    childOrder: Object.keys(childOrder).length > 0 ? childOrder : local.childOrder,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,130 @@
+// Parent/child tasks: each parent ranks its children among themselves
+// Top-level tasks live in taskOrder; a parent's children live in childOrder[parent],
+// with their own sorting session in childSorting[parent]
+
+import type { TaskList, Task, TaskId } from '../types';
+
+export interface TaskNode {
+  task: Task;
+  children: TaskNode[];
+  done: boolean;            // rolled up: a parent is done once all its children are
+  progress: { done: number; total: number }; // finished leaf tasks under this node
+}
+
+// Ranked IDs of one level: the top level when `parentId` is undefined
+export function levelOrder(list: TaskList, parentId?: TaskId): TaskId[] {
+  return parentId === undefined ? list.taskOrder : list.childOrder?.[parentId] ?? [];
+}
+
+// One level of the hierarchy seen as a flat list, so list-wide helpers (sorting
+// sessions, scopes, dependencies) work on siblings only
+export function levelView(list: TaskList, parentId?: TaskId): TaskList {
+  if (parentId === undefined) return list;
+
+  return {
+    ...list,
+    taskOrder: levelOrder(list, parentId),
+    sorting: list.childSorting?.[parentId] ?? null,
+    tiers: undefined,
+  };
+}
+
+// Write a level's order and session back into the list
+export function withLevel(
+  list: TaskList,
+  parentId: TaskId | undefined,
+  level: Pick<TaskList, 'taskOrder' | 'sorting'> & { tiers?: TaskId[][] }
+): TaskList {
+  if (parentId === undefined) {
+    return { ...list, taskOrder: level.taskOrder, sorting: level.sorting, tiers: level.tiers ?? list.tiers };
+  }
+
+  return {
+    ...list,
+    childOrder: { ...list.childOrder, [parentId]: level.taskOrder },
+    childSorting: { ...list.childSorting, [parentId]: level.sorting },
+  };
+}
+
+// Every task below `taskId`, depth first in rank order
+export function descendantsOf(list: TaskList, taskId: TaskId): TaskId[] {
+  return levelOrder(list, taskId).flatMap(id => [id, ...descendantsOf(list, id)]);
+}
+
+// Re-parent a task (null for the top level), appending it to its new siblings.
+// Returns the list unchanged if that would put a task under itself.
+export function moveTaskTo(list: TaskList, taskId: TaskId, parentId: TaskId | null): TaskList {
+  const task = list.tasks[taskId];
+  if (!task) return list;
+  if (parentId !== null && (parentId === taskId || !list.tasks[parentId])) return list;
+  if (parentId !== null && descendantsOf(list, taskId).includes(parentId)) return list;
+
+  const from = task.parentId;
+  const to = parentId ?? undefined;
+  if (from === to) return list;
+
+  const detached = withLevel(list, from, {
+    ...levelView(list, from),
+    taskOrder: levelOrder(list, from).filter(id => id !== taskId),
+  });
+  const attached = withLevel(detached, to, {
+    ...levelView(detached, to),
+    taskOrder: [...levelOrder(detached, to), taskId],
+  });
+
+  return {
+    ...attached,
+    tasks: { ...attached.tasks, [taskId]: { ...task, parentId: to, updatedAt: Date.now() } },
+  };
+}
+
+// Set each ancestor of `taskId` done exactly when all its children are
+export function rollUpCompletion(list: TaskList, taskId: TaskId): TaskList {
+  let tasks = list.tasks;
+  let parentId = tasks[taskId]?.parentId;
+
+  while (parentId !== undefined && tasks[parentId]) {
+    const children = levelOrder(list, parentId).filter(id => tasks[id]);
+    if (children.length === 0) break;
+
+    const done = children.every(id => tasks[id].done);
+    if (tasks[parentId].done === done) break;
+
+    tasks = { ...tasks, [parentId]: { ...tasks[parentId], done, updatedAt: Date.now() } };
+    parentId = tasks[parentId].parentId;
+  }
+
+  return tasks === list.tasks ? list : { ...list, tasks };
+}
+
+// Mark a task and everything below it done or not done
+export function setSubtreeDone(list: TaskList, taskId: TaskId, done: boolean): TaskList {
+  const tasks = { ...list.tasks };
+  [taskId, ...descendantsOf(list, taskId)].forEach(id => {
+    if (tasks[id] && tasks[id].done !== done) {
+      tasks[id] = { ...tasks[id], done, updatedAt: Date.now() };
+    }
+  });
+
+  return rollUpCompletion({ ...list, tasks }, taskId);
+}
+
+// The list as a tree in rank order, with completion rolled up from the leaves
+export function buildTaskTree(list: TaskList, parentId?: TaskId): TaskNode[] {
+  return levelOrder(list, parentId)
+    .filter(id => list.tasks[id])
+    .map(id => {
+      const task = list.tasks[id];
+      const children = buildTaskTree(list, id);
+
+      if (children.length === 0) {
+        return { task, children, done: task.done, progress: { done: task.done ? 1 : 0, total: 1 } };
+      }
+
+      const progress = children.reduce(
+        (sum, child) => ({ done: sum.done + child.progress.done, total: sum.total + child.progress.total }),
+        { done: 0, total: 0 }
+      );
+      return { task, children, done: children.every(child => child.done), progress };
+    });
+}
@@ -0,0 +1,105 @@
+// File format for sharing one person's ranking of a list with the rest of the team
+// There is no server, so each person exports a file and the others import it
+
+import type { TaskList, TaskId, ListId, CompareResult, ParticipantSet } from '../types';
+import { createCacheKey, parseCacheKey } from '../sortingEngine/cache';
+import { generateParticipantId } from './uuid';
+
+export const PARTICIPANT_FILE_FORMAT = 'prioritiser/participant';
+
+export interface ParticipantFile {
+  format: typeof PARTICIPANT_FILE_FORMAT;
+  version: 1;
+  listId: ListId;
+  listName: string;
+  participant: string;
+  exportedAt: number;
+  tasks: { id: TaskId; title: string }[];   // lets the importer match tasks by title if IDs differ
+  taskOrder: TaskId[];
+  cache: Record<string, CompareResult>;
+}
+
+export interface ParticipantImport {
+  participant: ParticipantSet;
+  unmatched: string[];                      // titles of tasks that are not in this list
+}
+
+// Serialise the list's current ranking and answers as `participant`
+export function exportParticipantFile(list: TaskList, participant: string): string {
+  const file: ParticipantFile = {
+    format: PARTICIPANT_FILE_FORMAT,
+    version: 1,
+    listId: list.id,
+    listName: list.name,
+    participant,
+    exportedAt: Date.now(),
+    tasks: list.taskOrder
+      .filter(id => list.tasks[id])
+      .map(id => ({ id, title: list.tasks[id].title })),
+    taskOrder: list.taskOrder,
+    cache: list.sorting?.cache ?? {},
+  };
+
+  return JSON.stringify(file);
+}
+
+function normaliseTitle(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+// Parse someone's file against our copy of the list, matching tasks by ID, then by title
+export function parseParticipantFile(text: string, list: TaskList): ParticipantImport {
+  let file: ParticipantFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Participant file is not valid JSON');
+  }
+
+  if (!file || file.format !== PARTICIPANT_FILE_FORMAT) {
+    throw new Error('Not a participant ranking file');
+  }
+  if (file.version !== 1) {
+    throw new Error(`Unsupported participant file version: ${file.version}`);
+  }
+  if (!Array.isArray(file.tasks) || !Array.isArray(file.taskOrder) || !file.cache || typeof file.cache !== 'object') {
+    throw new Error('Participant file is missing its ranking');
+  }
+
+  const byTitle = new Map<string, TaskId>();
+  Object.values(list.tasks).forEach(task => byTitle.set(normaliseTitle(task.title), task.id));
+
+  // Their task ID -> our task ID
+  const mapping = new Map<TaskId, TaskId>();
+  const unmatched: string[] = [];
+  file.tasks.forEach(({ id, title }) => {
+    const ours = list.tasks[id] ? id : byTitle.get(normaliseTitle(title));
+    if (ours) mapping.set(id, ours);
+    else unmatched.push(title);
+  });
+
+  const cache: Record<string, CompareResult> = {};
+  Object.entries(file.cache).forEach(([key, result]) => {
+    const [theirA, theirB] = parseCacheKey(key);
+    const a = mapping.get(theirA);
+    const b = mapping.get(theirB);
+    if (!a || !b || ![-1, 0, 1].includes(result)) return;
+
+    // Keys are ordered by ID, so remapped IDs may need the answer flipped
+    const flipped = (theirA < theirB) !== (a < b);
+    cache[createCacheKey(a, b)] = flipped && result !== 0 ? (-result as CompareResult) : result;
+  });
+
+  const now = Date.now();
+  return {
+    participant: {
+      id: generateParticipantId(),
+      name: typeof file.participant === 'string' && file.participant ? file.participant : 'Unnamed',
+      taskOrder: file.taskOrder.map(id => mapping.get(id)).filter((id): id is TaskId => !!id),
+      cache,
+      importedAt: now,
+      updatedAt: now,
+    },
+    unmatched,
+  };
+}
@@ -0,0 +1,134 @@
+// Tag helpers: normalising, editing across lists, indexing and filtering
+
+import type { AppState, Task, TaskList, ListId } from '../types';
+
+export interface TagSummary {
+  tag: string;
+  count: number;            // tasks carrying the tag
+  openCount: number;        // of those, not done
+  listIds: ListId[];
+}
+
+// Tasks must carry every tag in `all`, at least one in `any` and none in `none`
+export interface TagFilter {
+  all?: string[];
+  any?: string[];
+  none?: string[];
+}
+
+export interface TaskFilter {
+  tags?: TagFilter;
+  done?: boolean;           // only done (true) or only open (false) tasks
+}
+
+// Canonical form: no leading '#', trimmed, lower case, inner spaces as dashes
+export function normaliseTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+// Normalise and de-duplicate, dropping empty tags
+export function normaliseTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normaliseTag).filter(Boolean))];
+}
+
+export function hasTag(task: Task, tag: string): boolean {
+  const wanted = normaliseTag(tag);
+  return (task.tags ?? []).some(t => normaliseTag(t) === wanted);
+}
+
+// Replace each task's tags via `fn`, including tasks in the trash
+// Returns the list unchanged when no task's tags change
+export function mapListTags(list: TaskList, fn: (tags: string[]) => string[]): TaskList {
+  const now = Date.now();
+  let changed = false;
+
+  const update = (task: Task): Task => {
+    const before = task.tags ?? [];
+    const after = normaliseTags(fn(before));
+    if (after.length === before.length && after.every((t, i) => t === before[i])) return task;
+
+    changed = true;
+    return { ...task, tags: after.length > 0 ? after : undefined, updatedAt: now };
+  };
+
+  const tasks: TaskList['tasks'] = {};
+  Object.entries(list.tasks).forEach(([id, task]) => (tasks[id] = update(task)));
+
+  const trash = list.trash?.map(entry => ({
+    ...entry,
+    task: update(entry.task),
+    descendants: entry.descendants?.map(update),
+  }));
+
+  return changed ? { ...list, tasks, trash, updatedAt: now } : list;
+}
+
+// Apply `fn` to every list, keeping untouched lists (and the record) as they were
+export function mapAllTags(lists: AppState['lists'], fn: (tags: string[]) => string[]): AppState['lists'] {
+  let changed = false;
+  const next: AppState['lists'] = {};
+
+  Object.entries(lists).forEach(([id, list]) => {
+    next[id] = mapListTags(list, fn);
+    if (next[id] !== list) changed = true;
+  });
+
+  return changed ? next : lists;
+}
+
+// Rename `from` to `to` everywhere; tasks that had both keep one
+export function renameTagInLists(lists: AppState['lists'], from: string, to: string): AppState['lists'] {
+  const source = normaliseTag(from);
+  const target = normaliseTag(to);
+  if (!source || !target || source === target) return lists;
+
+  return mapAllTags(lists, tags => tags.map(t => (normaliseTag(t) === source ? target : t)));
+}
+
+// Fold several tags into one
+export function mergeTagsInLists(lists: AppState['lists'], sources: string[], target: string): AppState['lists'] {
+  const merged = new Set(sources.map(normaliseTag));
+  const into = normaliseTag(target);
+  if (!into) return lists;
+
+  return mapAllTags(lists, tags => tags.map(t => (merged.has(normaliseTag(t)) ? into : t)));
+}
+
+export function deleteTagInLists(lists: AppState['lists'], tag: string): AppState['lists'] {
+  const removed = normaliseTag(tag);
+  return mapAllTags(lists, tags => tags.filter(t => normaliseTag(t) !== removed));
+}
+
+// Every tag in use with its task counts, most used first
+export function buildTagIndex(lists: TaskList[]): TagSummary[] {
+  const index = new Map<string, TagSummary>();
+
+  lists.forEach(list => {
+    Object.values(list.tasks).forEach(task => {
+      normaliseTags(task.tags ?? []).forEach(tag => {
+        const entry = index.get(tag) ?? { tag, count: 0, openCount: 0, listIds: [] };
+        entry.count++;
+        if (!task.done) entry.openCount++;
+        if (!entry.listIds.includes(list.id)) entry.listIds.push(list.id);
+        index.set(tag, entry);
+      });
+    });
+  });
+
+  return [...index.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+export function matchesTagFilter(task: Task, filter: TagFilter): boolean {
+  const tags = new Set(normaliseTags(task.tags ?? []));
+  const includes = (tag: string) => tags.has(normaliseTag(tag));
+
+  if (filter.all && !filter.all.every(includes)) return false;
+  if (filter.any && filter.any.length > 0 && !filter.any.some(includes)) return false;
+  if (filter.none && filter.none.some(includes)) return false;
+  return true;
+}
+
+export function matchesTaskFilter(task: Task, filter: TaskFilter): boolean {
+  if (filter.done !== undefined && task.done !== filter.done) return false;
+  return !filter.tags || matchesTagFilter(task, filter.tags);
+}
@@ -0,0 +1,179 @@
+// Soft delete: trashed tasks and lists can be restored until the retention period ends
+
+import type { AppState, ListSummary, TaskList, TaskId, TrashedTask } from '../types';
+import { findDependencyCycle, removeBlockers } from '../sortingEngine/dependencies';
+import { pruneDeletedTasks } from '../sortingEngine/staleness';
+import { updateListSessions } from '../sortingEngine/session';
+import { descendantsOf, levelOrder, levelView, rollUpCompletion, withLevel } from './hierarchy';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Move a task and its subtasks to the list's trash, remembering where it was.
+// The subtasks' own orders and sessions, and every answer about the tasks, stay in
+// place for a restore. The parent's completion is worked out again from the subtasks left.
+export function trashTask(list: TaskList, taskId: TaskId, now: number = Date.now()): TaskList {
+  const task = list.tasks[taskId];
+  if (!task) return list;
+
+  const descendants = descendantsOf(list, taskId).filter(id => list.tasks[id]);
+  const removed = new Set([taskId, ...descendants]);
+
+  const remainingTasks: TaskList['tasks'] = {};
+  Object.entries(list.tasks).forEach(([id, other]) => {
+    if (!removed.has(id)) remainingTasks[id] = other;
+  });
+
+  // Tasks left behind that each removed task blocked
+  const blocked = (id: TaskId) => Object.values(remainingTasks)
+    .filter(other => other.blockedBy?.includes(id))
+    .map(other => other.id);
+
+  const blocks = blocked(taskId);
+  const descendantBlocks: Record<TaskId, TaskId[]> = {};
+  descendants.forEach(id => {
+    const ids = blocked(id);
+    if (ids.length > 0) descendantBlocks[id] = ids;
+  });
+
+  const entry: TrashedTask = {
+    task,
+    index: levelOrder(list, task.parentId).indexOf(taskId),
+    blocks: blocks.length > 0 ? blocks : undefined,
+    descendantBlocks: Object.keys(descendantBlocks).length > 0 ? descendantBlocks : undefined,
+    descendants: descendants.length > 0 ? descendants.map(id => list.tasks[id]) : undefined,
+    deletedAt: now,
+  };
+
+  const level = levelView(list, task.parentId);
+  const detached = withLevel(list, task.parentId, {
+    ...level,
+    taskOrder: level.taskOrder.filter(id => id !== taskId),
+  });
+
+  const trashed: TaskList = {
+    ...detached,
+    tasks: removeBlockers(remainingTasks, [...removed]),
+    trash: [...(list.trash ?? []).filter(t => t.task.id !== taskId), entry],
+  };
+
+  const sibling = task.parentId !== undefined ? levelOrder(trashed, task.parentId)[0] : undefined;
+  return sibling ? rollUpCompletion(trashed, sibling) : trashed;
+}
+
+// Put a trashed task back at its old position, and back in front of tasks it and its
+// subtasks blocked
+export function restoreTrashedTask(list: TaskList, taskId: TaskId): TaskList {
+  const entry = list.trash?.find(t => t.task.id === taskId);
+  if (!entry) return list;
+
+  let tasks = { ...list.tasks, [taskId]: entry.task };
+  (entry.descendants ?? []).forEach(descendant => (tasks[descendant.id] = descendant));
+
+  const blockAgain = (blockerId: TaskId, ids: TaskId[]) => ids.forEach(id => {
+    const blocked = tasks[id];
+    if (!blocked || blocked.blockedBy?.includes(blockerId)) return;
+    if (findDependencyCycle(tasks, id, blockerId)) return;
+
+    tasks = { ...tasks, [id]: { ...blocked, blockedBy: [...(blocked.blockedBy ?? []), blockerId] } };
+  });
+  blockAgain(taskId, entry.blocks ?? []);
+  Object.entries(entry.descendantBlocks ?? {}).forEach(([blockerId, ids]) => blockAgain(blockerId, ids));
+
+  // Blockers of its own may have been deleted meanwhile
+  const blockedBy = entry.task.blockedBy?.filter(id => tasks[id]);
+  if (blockedBy && blockedBy.length !== entry.task.blockedBy?.length) {
+    tasks[taskId] = { ...entry.task, blockedBy };
+  }
+
+  // Back under its parent if that still exists, otherwise at the top level
+  let parentId = entry.task.parentId;
+  if (parentId !== undefined && !tasks[parentId]) {
+    parentId = undefined;
+    tasks[taskId] = { ...tasks[taskId], parentId };
+  }
+
+  const taskOrder = [...levelOrder(list, parentId)];
+  const index = entry.index < 0 ? taskOrder.length : Math.min(entry.index, taskOrder.length);
+  taskOrder.splice(index, 0, taskId);
+
+  return rollUpCompletion({
+    ...withLevel(list, parentId, { ...levelView(list, parentId), taskOrder }),
+    tasks,
+    trash: list.trash!.filter(t => t !== entry),
+  }, taskId);
+}
+
+function withoutKeys<T>(record: Record<TaskId, T> | undefined, ids: Set<TaskId>): Record<TaskId, T> | undefined {
+  if (!record) return record;
+
+  const kept: Record<TaskId, T> = {};
+  Object.entries(record).forEach(([id, value]) => {
+    if (!ids.has(id)) kept[id] = value;
+  });
+  return kept;
+}
+
+// Permanently drop trash entries failing `keep`, with their subtasks' orders and sessions
+// and every answer about them
+export function purgeTrash(list: TaskList, keep: (entry: TrashedTask) => boolean): TaskList {
+  const purged = (list.trash ?? []).filter(entry => !keep(entry));
+  if (purged.length === 0) return list;
+
+  const ids = new Set(purged.flatMap(entry => [entry.task.id, ...(entry.descendants ?? []).map(t => t.id)]));
+  const remaining: TaskList = {
+    ...list,
+    trash: list.trash!.filter(keep),
+    childOrder: withoutKeys(list.childOrder, ids),
+    childSorting: withoutKeys(list.childSorting, ids),
+  };
+
+  return updateListSessions(remaining, sorting => pruneDeletedTasks(sorting, [...ids]));
+}
+
+function expired(deletedAt: number, retentionDays: number, now: number): boolean {
+  return now - deletedAt > retentionDays * DAY_MS;
+}
+
+// Permanently remove trashed tasks and lists older than the retention period
+export function purgeExpiredTrash(
+  lists: AppState['lists'],
+  retentionDays: number = TRASH_RETENTION_DAYS,
+  now: number = Date.now()
+): AppState['lists'] {
+  let changed = false;
+  const next: AppState['lists'] = {};
+
+  Object.values(lists).forEach(list => {
+    if (list.deletedAt !== undefined && expired(list.deletedAt, retentionDays, now)) {
+      changed = true;
+      return;
+    }
+
+    next[list.id] = purgeTrash(list, entry => !expired(entry.deletedAt, retentionDays, now));
+    if (next[list.id] !== list) changed = true;
+  });
+
+  return changed ? next : lists;
+}
+
+// The same for lists that are not loaded: those trashed too long ago leave the index,
+// and their stored records with it. Trashed tasks inside them go when they are loaded.
+export function purgeExpiredSummaries(
+  summaries: Record<string, ListSummary>,
+  retentionDays: number = TRASH_RETENTION_DAYS,
+  now: number = Date.now()
+): Record<string, ListSummary> {
+  const next: Record<string, ListSummary> = {};
+  Object.values(summaries).forEach(summary => {
+    if (summary.deletedAt === undefined || !expired(summary.deletedAt, retentionDays, now)) next[summary.id] = summary;
+  });
+
+  return Object.keys(next).length === Object.keys(summaries).length ? summaries : next;
+}
+
+// Lists shown in the switcher: neither archived nor in the trash
+export function isListVisible(list: TaskList): boolean {
+  return list.deletedAt === undefined && list.archivedAt === undefined;
+}
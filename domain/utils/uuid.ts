@@ -20,3 +20,11 @@ export function generateTaskId(): string {
 export function generateListId(): string {
   return `list_${generateId()}`;
 }
+
+export function generateCriterionId(): string {
+  return `crit_${generateId()}`;
+}
+
+export function generateParticipantId(): string {
+  return `person_${generateId()}`;
+}
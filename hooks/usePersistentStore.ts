@@ -1,19 +1,129 @@
 // Hook for persisting Zustand store to IndexedDB with automatic hydration
+// Each list is stored separately; only lists that changed are written, and lists
+// other than the active one are loaded when they are opened. Tabs tell each other what
+// they saved; edits to the same list in two tabs become a conflict for the user to resolve.
 
 'use client';
 
 import { useEffect, useRef } from 'react';
 import { useStore } from '@/domain/state/store';
-import { get, set, isStorageAvailable } from '@/domain/storage/idb';
-import { migrateAppState } from '@/domain/storage/migrations';
-import type { AppState } from '@/domain/types';
+import { isStorageAvailable } from '@/domain/storage/idb';
+import { emptySnapshot, loadAppState, loadList, saveChanges, type SavedSnapshot } from '@/domain/storage/listStorage';
+import { openTabChannel, reconcileRemoteList, type SyncMessage, type TabChannel } from '@/domain/storage/tabSync';
+import { generateId } from '@/domain/utils/uuid';
+import { emptyMigrationReport, isEmptyMigrationReport } from '@/domain/storage/migrations';
+import { readBackup, runScheduledBackups, takeBackup } from '@/domain/storage/backups';
+import type { ImportPreview } from '@/domain/utils/exportImport';
+import type { AppState, ListId, TaskList } from '@/domain/types';
 
-const STORAGE_KEY = 'prioritiser:app:v1';
 const DEBOUNCE_MS = 300;
+const BACKUP_CHECK_MS = 10 * 60 * 1000;
 
 // Track if we've already initialized to prevent double hydration
 let initialized = false;
 
+// What storage holds, so saves can skip unchanged lists
+let snapshot: SavedSnapshot = emptySnapshot();
+
+const tabId = generateId();
+let channel: TabChannel | null = null;
+
+// Saves and remote updates run one after another, each seeing the previous one's snapshot
+let queue: Promise<void> = Promise.resolve();
+
+// A failed task rejects for its caller without stopping the ones after it
+function enqueue(task: () => Promise<void>): Promise<void> {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+function rememberStored(listId: ListId, list: TaskList | null) {
+  const lists = { ...snapshot.lists };
+  if (list) lists[listId] = list;
+  else delete lists[listId];
+  snapshot = { ...snapshot, lists };
+}
+
+function persist(state: AppState): Promise<void> {
+  return enqueue(async () => {
+    try {
+      const result = await saveChanges(snapshot, state);
+      snapshot = result.snapshot;
+      result.conflicts.forEach(conflict => useStore.getState().reportConflict(conflict));
+
+      if (result.changed.length > 0 || result.removed.length > 0) {
+        channel?.post({ tabId, changed: result.changed, removed: result.removed, sentAt: Date.now() });
+      }
+    } catch (error) {
+      // The snapshot is unchanged, so the next save retries these lists
+      console.error('Failed to persist to storage:', error);
+    }
+  });
+}
+
+// Take another tab's saved version of a list, unless this tab has unsaved edits to it
+async function applyRemote(listId: ListId, remote: TaskList | null) {
+  const local = useStore.getState().lists[listId];
+  if (!local) return;
+
+  const outcome = reconcileRemoteList(snapshot.lists[listId], local, remote);
+  if (outcome === 'skip') return;
+
+  rememberStored(listId, remote);
+  if (outcome === 'apply') useStore.getState().applyRemoteList(listId, remote);
+  else useStore.getState().reportConflict(outcome);
+}
+
+function receive(message: SyncMessage): Promise<void> {
+  if (message.tabId === tabId) return Promise.resolve();
+
+  return enqueue(async () => {
+    try {
+      for (const summary of message.changed) {
+        // Lists this tab has not loaded only need their summary refreshed
+        if (!useStore.getState().lists[summary.id]) {
+          useStore.getState().applyRemoteSummary(summary.id, summary);
+          continue;
+        }
+        const remote = await loadList(summary.id);
+        if (remote) await applyRemote(summary.id, remote);
+      }
+
+      for (const listId of message.removed) {
+        useStore.getState().applyRemoteSummary(listId, null);
+        await applyRemote(listId, null);
+      }
+    } catch (error) {
+      console.error('Failed to apply changes from another tab:', error);
+    }
+  });
+}
+
+// Lists being read from storage; a second request waits on the first
+const loading = new Map<ListId, Promise<void>>();
+
+function loadUnloadedList(listId: ListId): Promise<void> {
+  const pending = loading.get(listId);
+  if (pending) return pending;
+
+  const load = readUnloadedList(listId).finally(() => loading.delete(listId));
+  loading.set(listId, load);
+  return load;
+}
+
+async function readUnloadedList(listId: ListId) {
+  try {
+    const report = emptyMigrationReport();
+    const list = await loadList(listId, report);
+    if (!isEmptyMigrationReport(report)) useStore.getState().reportMigration(report);
+    if (list) snapshot = { ...snapshot, lists: { ...snapshot.lists, [listId]: list } };
+    useStore.getState().loadList(listId, list ?? null);
+  } catch (error) {
+    console.error(`Failed to load list ${listId}:`, error);
+  }
+}
+
 export function usePersistentStore() {
   const hydrated = useStore(state => state.hydrated);
   const debounceTimer = useRef<NodeJS.Timeout | undefined>(undefined);
@@ -31,11 +141,12 @@ export function usePersistentStore() {
           return;
         }
 
-        const saved = await get<any>(STORAGE_KEY);
+        const saved = await loadAppState();
 
         if (saved) {
-          const migrated = migrateAppState(saved);
-          useStore.getState().hydrate(migrated);
+          snapshot = saved.snapshot;
+          useStore.getState().hydrate(saved.state);
+          useStore.getState().purgeExpiredTrash();
         } else {
           useStore.getState().setHydrated(true);
         }
@@ -48,29 +159,43 @@ export function usePersistentStore() {
     hydrateFromStorage();
   }, []);
 
+  // Load a list from storage when it becomes active
+  useEffect(() => {
+    if (!hydrated || !isStorageAvailable()) return;
+
+    const loadActive = (state: AppState) => {
+      if (state.activeListId && state.unloadedLists?.[state.activeListId]) {
+        loadUnloadedList(state.activeListId);
+      }
+    };
+
+    loadActive(useStore.getState());
+    return useStore.subscribe(loadActive);
+  }, [hydrated]);
+
+  // Listen for saves in other tabs
+  useEffect(() => {
+    if (!hydrated || !isStorageAvailable()) return;
+
+    channel = openTabChannel(receive);
+    return () => {
+      channel?.close();
+      channel = null;
+    };
+  }, [hydrated]);
+
   // Subscribe to store changes and persist (debounced)
   useEffect(() => {
     if (!hydrated || !isStorageAvailable()) return;
 
-    const unsubscribe = useStore.subscribe(async (state) => {
+    const unsubscribe = useStore.subscribe((state) => {
       // Clear existing timer
       if (debounceTimer.current) {
         clearTimeout(debounceTimer.current);
       }
 
       // Set new timer to save after debounce period
-      debounceTimer.current = setTimeout(async () => {
-        try {
-          const dataToSave: Partial<AppState> = {
-            lists: state.lists,
-            activeListId: state.activeListId,
-          };
-
-          await set(STORAGE_KEY, dataToSave);
-        } catch (error) {
-          console.error('Failed to persist to storage:', error);
-        }
-      }, DEBOUNCE_MS);
+      debounceTimer.current = setTimeout(() => persist(state), DEBOUNCE_MS);
     });
 
     return () => {
@@ -81,6 +206,24 @@ export function usePersistentStore() {
     };
   }, [hydrated]);
 
+  // Rolling backups, checked now and then; they copy what is in storage
+  useEffect(() => {
+    if (!hydrated || !isStorageAvailable()) return;
+
+    const check = () =>
+      enqueue(async () => {
+        try {
+          await runScheduledBackups();
+        } catch (error) {
+          console.error('Failed to back up:', error);
+        }
+      });
+
+    check();
+    const timer = setInterval(check, BACKUP_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [hydrated]);
+
   return {
     hydrated,
     isStorageAvailable: isStorageAvailable(),
@@ -91,15 +234,70 @@ export function usePersistentStore() {
 export async function forceSave() {
   if (!isStorageAvailable()) return;
 
-  try {
-    const state = useStore.getState();
-    const dataToSave: Partial<AppState> = {
-      lists: state.lists,
-      activeListId: state.activeListId,
-    };
+  await persist(useStore.getState());
+}
 
-    await set(STORAGE_KEY, dataToSave);
-  } catch (error) {
-    console.error('Failed to force save:', error);
+// Save, then back up the current state so a restore or import can itself be undone
+async function backUpBefore(reason: 'before-restore' | 'before-import') {
+  await persist(useStore.getState());
+  await enqueue(async () => {
+    await takeBackup(reason);
+  });
+}
+
+// Replace every list with the ones in a backup; false if the backup is gone
+export async function restoreAppFromBackup(backupId: string): Promise<boolean> {
+  if (!isStorageAvailable()) return false;
+
+  const backup = await readBackup(backupId);
+  if (!backup) return false;
+
+  await backUpBefore('before-restore');
+  if (!isEmptyMigrationReport(backup.report)) useStore.getState().reportMigration(backup.report);
+  useStore.getState().restoreAppBackup(backup.lists, backup.activeListId);
+  return true;
+}
+
+// Put one list back as it was in a backup; false if the backup or the list is gone
+export async function restoreListFromBackup(backupId: string, listId: ListId): Promise<boolean> {
+  if (!isStorageAvailable()) return false;
+
+  const list = (await readBackup(backupId))?.lists.find(l => l.id === listId);
+  if (!list) return false;
+
+  // Loaded first, so undoing the restore brings back the list as it was
+  await loadLists([listId]);
+  await backUpBefore('before-restore');
+  return useStore.getState().restoreListBackup(list);
+}
+
+// Load lists into the store before acting on them, e.g. trashing or archiving a list
+// picked from its summary. Lists already loaded are skipped.
+export async function loadLists(listIds: ListId[]): Promise<void> {
+  if (!isStorageAvailable()) return;
+
+  const unloaded = listIds.filter(listId => useStore.getState().unloadedLists?.[listId]);
+  await Promise.all(unloaded.map(loadUnloadedList));
+}
+
+// Load every list into the store, e.g. before renaming a tag everywhere, searching
+// everything or exporting; returns them all
+export async function loadAllLists(): Promise<TaskList[]> {
+  await loadLists(Object.keys(useStore.getState().unloadedLists ?? {}));
+  return Object.values(useStore.getState().lists);
+}
+
+// Apply a previewed import. Lists it would merge into are loaded first; replacing
+// everything backs up the current state before it goes.
+export async function applyImport(preview: ImportPreview, mode: 'merge' | 'replace'): Promise<void> {
+  if (!isEmptyMigrationReport(preview.report)) useStore.getState().reportMigration(preview.report);
+
+  if (mode === 'replace') {
+    if (isStorageAvailable()) await backUpBefore('before-import');
+    useStore.getState().replaceAllLists(preview.lists, preview.activeListId);
+    return;
   }
+
+  await loadLists(preview.lists.map(list => list.id));
+  useStore.getState().importLists(preview.lists);
 }